@@ -0,0 +1,212 @@
+// ============================================================================
+// Access Evaluation - Shared by the route guard and the server helpers
+// ============================================================================
+
+import {conditionNeedsSession, getConfig} from "./config";
+import {effectivePermissions, roleGrants} from "./roles";
+import {evaluatePolicy} from "./policies";
+import type {
+    AccessCondition,
+    DenialReason,
+    OwnershipCheck,
+    ProtectionRule,
+    RouteParams,
+    SatisfiedCheck,
+    Session,
+} from "./types";
+
+/**
+ * Roles held by a session, from the access hooks
+ * (default: session.role followed by session.roles)
+ */
+export function getUserRoles(session: Session): string[] {
+    const {access} = getConfig();
+    if (access.getRoles) {
+        return access.getRoles(session);
+    }
+
+    const role = access.getRole(session);
+    const roles = role ? [role, ...(session.roles ?? [])] : session.roles ?? [];
+    return [...new Set(roles)];
+}
+
+/**
+ * Permissions granted to a session directly and through its roles
+ */
+export function getUserPermissions(session: Session): string[] {
+    const {access, rolePermissions} = getConfig();
+    return effectivePermissions(rolePermissions, getUserRoles(session), access.getPermissions(session));
+}
+
+/**
+ * Whether the session holds at least one of the roles, directly or inherited
+ */
+export function sessionHasAnyRole(session: Session, roles: readonly string[]): boolean {
+    const {roleGraph} = getConfig();
+    const userRoles = getUserRoles(session);
+    return roles.some((role) => userRoles.some((userRole) => roleGrants(roleGraph, userRole, role)));
+}
+
+/**
+ * Whether the session has all (or any) of the permissions, directly or through its roles
+ */
+export function sessionHasPermissions(
+    session: Session,
+    permissions: readonly string[],
+    mode: "all" | "any" = "all"
+): boolean {
+    const {permissionMatcher} = getConfig();
+    const userPermissions = getUserPermissions(session);
+    const matches = (permission: string) => permissionMatcher(userPermissions, permission);
+    return mode === "all" ? permissions.every(matches) : permissions.some(matches);
+}
+
+/**
+ * Whether the session owns the resource named by a route param, or may bypass the check
+ */
+function isOwner(session: Session, check: OwnershipCheck, params: RouteParams): boolean {
+    if (check.bypassRoles && sessionHasAnyRole(session, check.bypassRoles)) {
+        return true;
+    }
+
+    const ownerId = params[check.param];
+    const value = session[check.field ?? "userId"];
+    if (ownerId === undefined || (typeof value !== "string" && typeof value !== "number")) {
+        return false;
+    }
+    return String(value) === ownerId;
+}
+
+/**
+ * Extract the check itself from a condition (rules carry their pattern and options too)
+ */
+function checkOf(condition: SatisfiedCheck): SatisfiedCheck {
+    if ("role" in condition) return {role: condition.role};
+    if ("roles" in condition) return {roles: condition.roles};
+    if ("permission" in condition) return {permission: condition.permission};
+    if ("permissions" in condition) return {permissions: condition.permissions};
+    if ("allow" in condition) return {allow: condition.allow};
+    if ("policy" in condition) return {policy: condition.policy};
+    if ("owner" in condition) return {owner: condition.owner};
+    return {not: condition.not};
+}
+
+/**
+ * Evaluate a (possibly nested) access condition. Combinators short-circuit.
+ * Errors thrown by custom functions propagate so the whole rule is denied,
+ * rather than being negated into an allow by a surrounding "not".
+ *
+ * @param satisfied - Receives the checks that passed, when the condition passes
+ * @returns null if the condition passes, otherwise why it failed
+ */
+async function evaluateCondition(
+    condition: AccessCondition,
+    session: Session | null,
+    params: RouteParams,
+    satisfied: SatisfiedCheck[]
+): Promise<DenialReason | null> {
+    // Every nested condition must pass
+    if ("all" in condition) {
+        for (const nested of condition.all) {
+            const reason = await evaluateCondition(nested, session, params, satisfied);
+            if (reason) return reason;
+        }
+        return null;
+    }
+
+    // At least one nested condition must pass (report the last failure)
+    if ("any" in condition) {
+        const mark = satisfied.length;
+        let reason: DenialReason | null = null;
+        for (const nested of condition.any) {
+            reason = await evaluateCondition(nested, session, params, satisfied);
+            if (!reason) return null;
+            // Drop checks from the failed branch
+            satisfied.length = mark;
+        }
+        return reason;
+    }
+
+    let reason: DenialReason | null;
+
+    if ("not" in condition) {
+        // Nested condition must fail (role, permission and ownership checks still need a session)
+        if (!session && conditionNeedsSession(condition.not)) return "no-session";
+        reason = (await evaluateCondition(condition.not, session, params, [])) ? null : "negated-condition";
+    } else if ("allow" in condition) {
+        // Custom allow function
+        reason = (await condition.allow(session, params)) ? null : "custom-check-failed";
+    } else if ("policy" in condition) {
+        // Registered policy (may allow anonymous users)
+        const {name, action, resource} = condition.policy;
+        const value = resource ? await resource(params, session) : params;
+        reason = (await evaluatePolicy(name, action, session, value)) ? null : "policy-denied";
+    } else if (!session) {
+        // Must be authenticated for all other checks
+        return "no-session";
+    } else if ("owner" in condition) {
+        // Resource ownership, unless a bypass role applies
+        reason = isOwner(session, condition.owner, params) ? null : "not-owner";
+    } else if ("role" in condition) {
+        // Single role check (any of the user's roles, inherited roles count)
+        reason = sessionHasAnyRole(session, [condition.role]) ? null : "missing-role";
+    } else if ("roles" in condition) {
+        // Multiple roles check (user must have ONE of these)
+        reason = sessionHasAnyRole(session, condition.roles) ? null : "missing-role";
+    } else if ("permission" in condition) {
+        // Single permission check (role grants count)
+        reason = sessionHasPermissions(session, [condition.permission]) ? null : "missing-permission";
+    } else if ("permissions" in condition) {
+        // Multiple permissions check (user must have ALL of these)
+        reason = sessionHasPermissions(session, condition.permissions) ? null : "missing-permission";
+    } else {
+        // No specific rule matched - allow by default
+        return null;
+    }
+
+    if (!reason) {
+        satisfied.push(checkOf(condition));
+    }
+    return reason;
+}
+
+/**
+ * Check if session satisfies a protection rule
+ *
+ * @param satisfied - Receives the checks that passed, when the rule passes
+ * @returns null if access is allowed, otherwise why it was denied
+ */
+export async function checkRule(
+    rule: ProtectionRule,
+    session: Session | null,
+    params: RouteParams,
+    satisfied: SatisfiedCheck[] = []
+): Promise<DenialReason | null> {
+    const {access} = getConfig();
+
+    // Custom check overrides everything
+    if (access.check) {
+        try {
+            return (await access.check(rule, session, params)) ? null : "custom-check-failed";
+        } catch (error) {
+            if (process.env.NODE_ENV !== 'production') {
+                console.error('[SessionKit] Error in custom access check hook:', error);
+            }
+            return "custom-check-threw";
+        }
+    }
+
+    const checks: SatisfiedCheck[] = [];
+    try {
+        const reason = await evaluateCondition(rule, session, params, checks);
+        if (!reason) {
+            satisfied.push(...checks);
+        }
+        return reason;
+    } catch (error) {
+        if (process.env.NODE_ENV !== 'production') {
+            console.error('[SessionKit] Error in custom rule allow function or policy:', error);
+        }
+        return "custom-check-threw";
+    }
+}
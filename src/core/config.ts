@@ -2,8 +2,25 @@
 // Configuration Store
 // ============================================================================
 
-import type {SessionKitConfig, AccessHooks, ProtectionRule, Session, SessionContext} from "./types";
-import {isValidPattern, isValidRedirectPath} from "./validation";
+import type {
+    SessionKitConfig,
+    AccessCondition,
+    AccessHooks,
+    DefaultPolicy,
+    DeniedResponse,
+    ForbiddenResponse,
+    HttpMethod,
+    ProtectionRule,
+    RuleResolution,
+    Session,
+    SessionContext,
+    SessionLimits
+} from "./types";
+import {DEFAULT_SESSION_LIMITS, isValidPattern, isValidRedirectPath} from "./validation";
+import {createRuleTable, findFirstMatch, resolveRules, type MatchableRule, type RuleTable} from "./matcher";
+import {normalizeBase, normalizePathname} from "./pathname";
+import {compileRoleHierarchy, compileRolePermissions, type RoleGraph, type RolePermissions} from "./roles";
+import {createPermissionMatcher, exactPermissionMatcher, type PermissionMatcher} from "./permissions";
 
 /**
  * Internal config with defaults applied
@@ -11,7 +28,39 @@ import {isValidPattern, isValidRedirectPath} from "./validation";
 export interface ResolvedConfig {
     loginPath: string;
     protect: ProtectionRule[];
-    access: Required<Omit<AccessHooks, "check">> & {
+    /** Protection rules compiled for fast lookup */
+    ruleTable: RuleTable<ProtectionRule>;
+    ruleResolution: RuleResolution;
+    defaultPolicy: DefaultPolicy;
+    deniedResponse: DeniedResponse;
+    forbiddenPath: string | null;
+    forbiddenResponse?: ForbiddenResponse;
+    returnToParam: string | null;
+    expiredParam: string | null;
+    /** Absolute session lifetime in seconds */
+    maxAge: number | null;
+    /** Seconds a session may go unused */
+    idleTimeout: number | null;
+    onAllowed?: SessionKitConfig["onAllowed"];
+    onDenied?: SessionKitConfig["onDenied"];
+    reportOnly: boolean;
+    /** Role inheritance, resolved transitively */
+    roleGraph: RoleGraph;
+    /** Permissions granted by each role, inherited ones included */
+    rolePermissions: RolePermissions;
+    /** Matches granted permissions against required ones */
+    permissionMatcher: PermissionMatcher;
+    /** Size limits for the built-in session checks */
+    sessionLimits: Required<SessionLimits>;
+    validateSession?: SessionKitConfig["validateSession"];
+    public: string[];
+    /** Public patterns compiled for fast lookup */
+    publicTable: RuleTable<MatchableRule>;
+    /** Site base path, normalized ("" for the root) */
+    base: string;
+    caseSensitive: boolean;
+    access: Required<Omit<AccessHooks, "check" | "getRoles">> & {
+        getRoles?: AccessHooks["getRoles"];
         check?: AccessHooks["check"];
     };
     runWithContext?: <T>(context: SessionContext, fn: () => T) => T | Promise<T>;
@@ -19,9 +68,192 @@ export interface ResolvedConfig {
     setContextStore?: (context: SessionContext) => void;
 }
 
+const HTTP_METHODS: readonly HttpMethod[] = ["GET", "HEAD", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"];
+
+const RULE_RESOLUTIONS: readonly RuleResolution[] = ["first-match", "most-specific", "all"];
+
+const DEFAULT_POLICIES: readonly DefaultPolicy[] = ["allow", "authenticated", "deny"];
+
+const DENIED_RESPONSES: readonly unknown[] = ["redirect", 401, 403, "negotiate"];
+
+const isValidDeniedResponse = (value: unknown): value is DeniedResponse =>
+    typeof value === "function" || DENIED_RESPONSES.includes(value);
+
+const FORBIDDEN_RESPONSES: readonly unknown[] = ["redirect", "rewrite", 403];
+
+const CONDITION_KEYS = ["role", "roles", "permission", "permissions", "allow", "policy", "owner", "all", "any", "not"] as const;
+
+const COMBINATOR_KEYS = ["all", "any", "not"] as const;
+
+/** Deep nesting is a configuration mistake, and would risk the stack during evaluation */
+const MAX_CONDITION_DEPTH = 32;
+
+const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === "string");
+
+/**
+ * Describe what is wrong with an access condition tree, or return null if it is valid.
+ * Each condition must carry exactly one check; other keys (pattern, redirectTo...) are ignored.
+ */
+function findConditionError(condition: unknown, location: string, depth: number): string | null {
+    if (depth > MAX_CONDITION_DEPTH) {
+        return `${location}: conditions may not be nested more than ${MAX_CONDITION_DEPTH} levels deep`;
+    }
+    if (!condition || typeof condition !== "object" || Array.isArray(condition)) {
+        return `${location}: must be an object`;
+    }
+
+    const record = condition as Record<string, unknown>;
+    const keys = CONDITION_KEYS.filter((key) => key in record);
+    if (keys.length !== 1) {
+        return `${location}: must have exactly one of ${CONDITION_KEYS.join(", ")}`;
+    }
+
+    const key = keys[0] as typeof CONDITION_KEYS[number];
+    const value = record[key];
+
+    switch (key) {
+        case "role":
+        case "permission":
+            return typeof value === "string" ? null : `${location}.${key}: must be a string`;
+        case "roles":
+        case "permissions":
+            return isStringArray(value) ? null : `${location}.${key}: must be an array of strings`;
+        case "allow":
+            return typeof value === "function" ? null : `${location}.allow: must be a function`;
+        case "policy": {
+            const check = value as Record<string, unknown> | null;
+            if (!check || typeof check !== "object" || typeof check.name !== "string" || typeof check.action !== "string") {
+                return `${location}.policy: must be an object with a name and an action`;
+            }
+            if (check.resource !== undefined && typeof check.resource !== "function") {
+                return `${location}.policy.resource: must be a function`;
+            }
+            return null;
+        }
+        case "owner": {
+            const check = value as Record<string, unknown> | null;
+            if (!check || typeof check !== "object" || typeof check.param !== "string") {
+                return `${location}.owner: must be an object with a param`;
+            }
+            if (check.field !== undefined && typeof check.field !== "string") {
+                return `${location}.owner.field: must be a string`;
+            }
+            if (check.bypassRoles !== undefined && !isStringArray(check.bypassRoles)) {
+                return `${location}.owner.bypassRoles: must be an array of strings`;
+            }
+            return null;
+        }
+        case "not":
+            return findConditionError(value, `${location}.not`, depth + 1);
+        case "all":
+        case "any": {
+            if (!Array.isArray(value) || value.length === 0) {
+                return `${location}.${key}: must be a non-empty array of conditions`;
+            }
+            for (let i = 0; i < value.length; i++) {
+                const error = findConditionError(value[i], `${location}.${key}[${i}]`, depth + 1);
+                if (error) return error;
+            }
+            return null;
+        }
+    }
+}
+
+/**
+ * Whether a condition checks roles, permissions or ownership somewhere, which only a session can satisfy.
+ * Negating such a condition still requires a session.
+ */
+export function conditionNeedsSession(condition: AccessCondition): boolean {
+    if ("allow" in condition || "policy" in condition) return false;
+    if ("not" in condition) return conditionNeedsSession(condition.not);
+    if ("all" in condition) return condition.all.some(conditionNeedsSession);
+    if ("any" in condition) return condition.any.some(conditionNeedsSession);
+    return true;
+}
+
+/**
+ * Whether a condition always denies a signed-out user.
+ * Returns undefined when it depends on a custom allow function or a policy.
+ */
+function deniesAnonymous(condition: AccessCondition): boolean | undefined {
+    if ("allow" in condition || "policy" in condition) return undefined;
+    if ("not" in condition) {
+        if (conditionNeedsSession(condition.not)) return true;
+        const denied = deniesAnonymous(condition.not);
+        return denied === undefined ? undefined : !denied;
+    }
+    if ("all" in condition) {
+        const results = condition.all.map(deniesAnonymous);
+        if (results.includes(true)) return true;
+        return results.every((denied) => denied === false) ? false : undefined;
+    }
+    if ("any" in condition) {
+        const results = condition.any.map(deniesAnonymous);
+        if (results.includes(false)) return false;
+        return results.every((denied) => denied === true) ? true : undefined;
+    }
+    // Role and permission checks need a session
+    return true;
+}
+
+/**
+ * Describe why a redirect target would be denied to a signed-out user,
+ * sending them back to it forever, or return null if it is reachable.
+ * Targets that depend on custom checks are assumed reachable.
+ */
+function findRedirectLoop(target: string, config: ResolvedConfig): string | null {
+    if (config.access.check) return null;
+
+    const pathname = normalizePathname(target.split(/[?#]/)[0] as string, config.base);
+    if (pathname === null || findFirstMatch(config.publicTable, pathname) !== null) {
+        return null;
+    }
+
+    const matches = resolveRules(config.ruleTable, pathname, config.ruleResolution, "GET");
+
+    // The guard keeps the login and forbidden pages reachable under the default policy
+    if (matches.length === 0) {
+        const exempt = [config.loginPath, config.forbiddenPath].some(
+            (path) => path !== null && normalizePathname(path.split(/[?#]/)[0] as string, config.base) === pathname
+        );
+        return exempt || config.defaultPolicy === "allow" || config.reportOnly
+            ? null
+            : `defaultPolicy "${config.defaultPolicy}"`;
+    }
+
+    for (const {rule} of matches) {
+        if (!(rule.reportOnly ?? config.reportOnly) && deniesAnonymous(rule) === true) {
+            return `rule "${rule.pattern}"`;
+        }
+    }
+    return null;
+}
+
+/** Allowed query parameter names (returnToParam, expiredParam) */
+const QUERY_PARAM = /^[A-Za-z0-9_.-]{1,100}$/;
+
 const DEFAULT_CONFIG: ResolvedConfig = {
     loginPath: "/login",
     protect: [],
+    ruleTable: createRuleTable<ProtectionRule>([]),
+    ruleResolution: "first-match",
+    defaultPolicy: "allow",
+    deniedResponse: "redirect",
+    forbiddenPath: null,
+    returnToParam: null,
+    expiredParam: "reason",
+    maxAge: null,
+    idleTimeout: null,
+    reportOnly: false,
+    roleGraph: new Map(),
+    rolePermissions: new Map(),
+    permissionMatcher: exactPermissionMatcher,
+    sessionLimits: DEFAULT_SESSION_LIMITS,
+    public: [],
+    publicTable: createRuleTable<MatchableRule>([]),
+    base: "",
+    caseSensitive: true,
     access: {
         getRole: (session: Session | null) => session?.role ?? null,
         getPermissions: (session: Session | null) => session?.permissions ?? [],
@@ -66,10 +298,255 @@ export function setConfig(userConfig: SessionKitConfig): void {
                     `Must start with / and be less than 500 characters.`
                 );
             }
+
+            // Validate combinator trees and structured checks; a rule using one may not carry other checks
+            if (COMBINATOR_KEYS.some((key) => key in rule) || "policy" in rule || "owner" in rule) {
+                const error = findConditionError(rule, "rule", 0);
+                if (error) {
+                    throw new Error(`[SessionKit] Invalid condition in rule "${rule.pattern}" at ${error}.`);
+                }
+            }
+
+            // An ownership rule needs its param in the pattern
+            if ("owner" in rule) {
+                const {param} = rule.owner;
+                if (!rule.pattern.includes(`[${param}]`) && !rule.pattern.includes(`[...${param}]`)) {
+                    throw new Error(
+                        `[SessionKit] Invalid owner check in rule "${rule.pattern}": the pattern has no "[${param}]" param.`
+                    );
+                }
+            }
+
+            // Validate deniedResponse if present
+            if (rule.deniedResponse !== undefined && !isValidDeniedResponse(rule.deniedResponse)) {
+                throw new Error(
+                    `[SessionKit] Invalid deniedResponse in rule "${rule.pattern}". ` +
+                    `Must be "redirect", 401, 403, "negotiate" or a function.`
+                );
+            }
+
+            // Validate forbidden page and response if present
+            if (rule.forbiddenPath !== undefined && !isValidRedirectPath(rule.forbiddenPath)) {
+                throw new Error(
+                    `[SessionKit] Invalid forbiddenPath: "${rule.forbiddenPath}" in rule "${rule.pattern}". ` +
+                    `Must start with / and be less than 500 characters.`
+                );
+            }
+            if (rule.forbiddenResponse !== undefined && !FORBIDDEN_RESPONSES.includes(rule.forbiddenResponse)) {
+                throw new Error(
+                    `[SessionKit] Invalid forbiddenResponse in rule "${rule.pattern}". Must be "redirect", "rewrite" or 403.`
+                );
+            }
+            if (
+                (rule.forbiddenResponse === "redirect" || rule.forbiddenResponse === "rewrite") &&
+                !rule.forbiddenPath && !userConfig.forbiddenPath
+            ) {
+                throw new Error(
+                    `[SessionKit] forbiddenResponse "${rule.forbiddenResponse}" in rule "${rule.pattern}" requires a forbiddenPath.`
+                );
+            }
+
+            // Validate methods if present
+            if (rule.methods !== undefined) {
+                const methods = rule.methods as unknown;
+                if (
+                    !Array.isArray(methods) ||
+                    methods.length === 0 ||
+                    !methods.every((m) => typeof m === "string" && HTTP_METHODS.includes(m.toUpperCase() as HttpMethod))
+                ) {
+                    throw new Error(
+                        `[SessionKit] Invalid methods in rule "${rule.pattern}". ` +
+                        `Must be a non-empty array of: ${HTTP_METHODS.join(", ")}.`
+                    );
+                }
+            }
+
+            // Validate exclusions if present
+            for (const pattern of rule.exclude ?? []) {
+                if (!isValidPattern(pattern)) {
+                    throw new Error(
+                        `[SessionKit] Invalid exclude pattern: "${pattern}" in rule "${rule.pattern}". ` +
+                        `Patterns must start with / and be less than 1000 characters.`
+                    );
+                }
+            }
         }
         newConfig.protect = [...userConfig.protect];
     }
 
+    // Validate public patterns
+    if (userConfig.public) {
+        for (const pattern of userConfig.public) {
+            if (!isValidPattern(pattern)) {
+                throw new Error(
+                    `[SessionKit] Invalid public pattern: "${pattern}". ` +
+                    `Patterns must start with / and be less than 1000 characters.`
+                );
+            }
+        }
+        newConfig.public = [...userConfig.public];
+    }
+
+    // Validate rule resolution mode
+    if (userConfig.ruleResolution !== undefined) {
+        if (!RULE_RESOLUTIONS.includes(userConfig.ruleResolution)) {
+            throw new Error(
+                `[SessionKit] Invalid ruleResolution: "${userConfig.ruleResolution}". ` +
+                `Must be one of: ${RULE_RESOLUTIONS.join(", ")}.`
+            );
+        }
+        newConfig.ruleResolution = userConfig.ruleResolution;
+    }
+
+    // Validate default policy
+    if (userConfig.defaultPolicy !== undefined) {
+        if (!DEFAULT_POLICIES.includes(userConfig.defaultPolicy)) {
+            throw new Error(
+                `[SessionKit] Invalid defaultPolicy: "${userConfig.defaultPolicy}". ` +
+                `Must be one of: ${DEFAULT_POLICIES.join(", ")}.`
+            );
+        }
+        newConfig.defaultPolicy = userConfig.defaultPolicy;
+    }
+
+    // Validate denied response
+    if (userConfig.deniedResponse !== undefined) {
+        if (!isValidDeniedResponse(userConfig.deniedResponse)) {
+            throw new Error(
+                `[SessionKit] Invalid deniedResponse: "${String(userConfig.deniedResponse)}". ` +
+                `Must be "redirect", 401, 403, "negotiate" or a function.`
+            );
+        }
+        newConfig.deniedResponse = userConfig.deniedResponse;
+    }
+
+    // Validate forbidden page and response
+    if (userConfig.forbiddenPath !== undefined) {
+        if (!isValidRedirectPath(userConfig.forbiddenPath)) {
+            throw new Error(
+                `[SessionKit] Invalid forbiddenPath: "${userConfig.forbiddenPath}". Must start with / and be less than 500 characters.`
+            );
+        }
+        newConfig.forbiddenPath = userConfig.forbiddenPath;
+    }
+
+    if (userConfig.forbiddenResponse !== undefined) {
+        if (!FORBIDDEN_RESPONSES.includes(userConfig.forbiddenResponse)) {
+            throw new Error(
+                `[SessionKit] Invalid forbiddenResponse: "${userConfig.forbiddenResponse}". Must be "redirect", "rewrite" or 403.`
+            );
+        }
+        if (userConfig.forbiddenResponse !== 403 && !userConfig.forbiddenPath) {
+            throw new Error(
+                `[SessionKit] forbiddenResponse "${userConfig.forbiddenResponse}" requires a forbiddenPath.`
+            );
+        }
+        newConfig.forbiddenResponse = userConfig.forbiddenResponse;
+    }
+
+    // Validate returnTo query parameter name
+    if (userConfig.returnToParam !== undefined) {
+        if (typeof userConfig.returnToParam !== "string" || !QUERY_PARAM.test(userConfig.returnToParam)) {
+            throw new Error(
+                `[SessionKit] Invalid returnToParam: "${userConfig.returnToParam}". ` +
+                `Must be 1-100 letters, digits, "_", "." or "-".`
+            );
+        }
+        newConfig.returnToParam = userConfig.returnToParam;
+    }
+
+    // Validate expired query parameter
+    if (userConfig.expiredParam !== undefined) {
+        if (userConfig.expiredParam !== false
+            && (typeof userConfig.expiredParam !== "string" || !QUERY_PARAM.test(userConfig.expiredParam))) {
+            throw new Error(
+                `[SessionKit] Invalid expiredParam: "${userConfig.expiredParam}". ` +
+                `Must be false or 1-100 letters, digits, "_", "." or "-".`
+            );
+        }
+        newConfig.expiredParam = userConfig.expiredParam || null;
+    }
+
+    // Validate session lifetimes
+    for (const option of ["maxAge", "idleTimeout"] as const) {
+        const seconds = userConfig[option];
+        if (seconds === undefined) continue;
+        if (typeof seconds !== "number" || !Number.isFinite(seconds) || seconds <= 0) {
+            throw new Error(`[SessionKit] Invalid ${option}: must be a positive number of seconds.`);
+        }
+        newConfig[option] = seconds;
+    }
+
+    // Validate base path
+    if (userConfig.base !== undefined) {
+        if (typeof userConfig.base !== "string" || userConfig.base.length > 500 || /[?#\\]/.test(userConfig.base)) {
+            throw new Error(
+                `[SessionKit] Invalid base: "${userConfig.base}". Must be a path less than 500 characters.`
+            );
+        }
+        newConfig.base = normalizeBase(userConfig.base);
+    }
+
+    // Validate role hierarchy
+    if (userConfig.roleHierarchy !== undefined) {
+        const hierarchy: unknown = userConfig.roleHierarchy;
+        if (!hierarchy || typeof hierarchy !== "object" || Array.isArray(hierarchy)) {
+            throw new Error('[SessionKit] Invalid roleHierarchy: must be an object mapping roles to the roles they inherit.');
+        }
+        for (const [role, inherited] of Object.entries(hierarchy)) {
+            if (!isStringArray(inherited)) {
+                throw new Error(`[SessionKit] Invalid roleHierarchy entry "${role}": must be an array of role names.`);
+            }
+        }
+        newConfig.roleGraph = compileRoleHierarchy(userConfig.roleHierarchy);
+    }
+
+    // Validate role definitions
+    if (userConfig.roles !== undefined) {
+        const roles: unknown = userConfig.roles;
+        if (!roles || typeof roles !== "object" || Array.isArray(roles)) {
+            throw new Error('[SessionKit] Invalid roles: must be an object mapping role names to their definitions.');
+        }
+        for (const [role, definition] of Object.entries(roles)) {
+            if (!definition || typeof definition !== "object" || Array.isArray(definition)) {
+                throw new Error(`[SessionKit] Invalid definition for role "${role}": must be an object.`);
+            }
+            const {permissions} = definition as Record<string, unknown>;
+            if (permissions !== undefined && !isStringArray(permissions)) {
+                throw new Error(`[SessionKit] Invalid permissions for role "${role}": must be an array of strings.`);
+            }
+        }
+    }
+    newConfig.rolePermissions = compileRolePermissions(userConfig.roles ?? {}, newConfig.roleGraph);
+
+    // Validate permission matching
+    if (userConfig.permissionMatching !== undefined && userConfig.permissionMatching !== false) {
+        const options = userConfig.permissionMatching === true ? {} : userConfig.permissionMatching;
+        if (!options || typeof options !== "object" || Array.isArray(options)) {
+            throw new Error('[SessionKit] Invalid permissionMatching: must be a boolean or an options object.');
+        }
+        const {separator = ":", wildcard = "*", implies = {}} = options;
+        if (typeof separator !== "string" || separator.length === 0) {
+            throw new Error('[SessionKit] Invalid permissionMatching.separator: must be a non-empty string.');
+        }
+        if (typeof wildcard !== "string" || wildcard.length === 0 || wildcard.includes(separator)) {
+            throw new Error('[SessionKit] Invalid permissionMatching.wildcard: must be a non-empty string without the separator.');
+        }
+        if (!implies || typeof implies !== "object" || Array.isArray(implies) || !Object.values(implies).every(isStringArray)) {
+            throw new Error('[SessionKit] Invalid permissionMatching.implies: must map actions to arrays of actions.');
+        }
+        newConfig.permissionMatcher = createPermissionMatcher({separator, wildcard, implies});
+    }
+
+    if (userConfig.caseSensitive !== undefined) {
+        newConfig.caseSensitive = userConfig.caseSensitive;
+    }
+
+    // Compile rule tables against normalized pathnames
+    const tableOptions = {caseSensitive: newConfig.caseSensitive, ignoreTrailingSlash: true};
+    newConfig.ruleTable = createRuleTable(newConfig.protect, tableOptions);
+    newConfig.publicTable = createRuleTable(newConfig.public.map((pattern) => ({pattern})), tableOptions);
+
     // Validate context store getter/setter pair
     if ((userConfig.getContextStore && !userConfig.setContextStore) || (!userConfig.getContextStore && userConfig.setContextStore)) {
         throw new Error(
@@ -81,11 +558,68 @@ export function setConfig(userConfig: SessionKitConfig): void {
     if (userConfig.access) {
         newConfig.access = {
             getRole: userConfig.access.getRole ?? DEFAULT_CONFIG.access.getRole,
+            getRoles: userConfig.access.getRoles,
             getPermissions: userConfig.access.getPermissions ?? DEFAULT_CONFIG.access.getPermissions,
             check: userConfig.access.check,
         };
     }
 
+    // Validate session limits (merged over the defaults)
+    if (userConfig.limits !== undefined) {
+        const limits = userConfig.limits;
+        if (!limits || typeof limits !== "object" || Array.isArray(limits)) {
+            throw new Error('[SessionKit] Invalid limits: must be an object.');
+        }
+        for (const [name, value] of Object.entries(limits)) {
+            if (!Object.hasOwn(DEFAULT_SESSION_LIMITS, name)) {
+                throw new Error(`[SessionKit] Unknown limit "${name}".`);
+            }
+            if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+                throw new Error(`[SessionKit] Invalid limits.${name}: must be a positive integer.`);
+            }
+        }
+        newConfig.sessionLimits = {
+            ...DEFAULT_SESSION_LIMITS,
+            ...Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined)),
+        };
+    }
+
+    // Validate custom session validation
+    if (userConfig.validateSession !== undefined) {
+        const validator = userConfig.validateSession;
+        const isSchema = typeof validator === "object" && validator !== null
+            && typeof validator["~standard"]?.validate === "function";
+        if (typeof validator !== "function" && !isSchema) {
+            throw new Error('[SessionKit] Invalid validateSession: must be a function or a Standard Schema.');
+        }
+        newConfig.validateSession = validator;
+    }
+
+    if (userConfig.reportOnly !== undefined) {
+        newConfig.reportOnly = userConfig.reportOnly;
+    }
+
+    // Set guard lifecycle hooks
+    newConfig.onAllowed = userConfig.onAllowed;
+    newConfig.onDenied = userConfig.onDenied;
+
+    // Redirect targets must stay reachable for signed-out users, or they bounce forever
+    const redirectTargets = new Map<string, string>([[newConfig.loginPath, "loginPath"]]);
+    for (const rule of newConfig.protect) {
+        if (rule.redirectTo && !redirectTargets.has(rule.redirectTo)) {
+            redirectTargets.set(rule.redirectTo, `redirectTo of rule "${rule.pattern}"`);
+        }
+    }
+    for (const [target, source] of redirectTargets) {
+        const deniedBy = findRedirectLoop(target, newConfig);
+        if (deniedBy) {
+            throw new Error(
+                `[SessionKit] Redirect loop: ${source} "${target}" is denied to signed-out users by ${deniedBy}. ` +
+                `Add it to public or exclude it from the rule.`
+            );
+        }
+    }
+
     // Set context hooks
     newConfig.runWithContext = userConfig.runWithContext;
     newConfig.getContextStore = userConfig.getContextStore;
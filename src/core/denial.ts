@@ -0,0 +1,176 @@
+// ============================================================================
+// Denial Responses - What the guard sends back when access is denied
+// ============================================================================
+
+import type {APIContext} from "astro";
+import type {DeniedBody, DeniedResponse, ForbiddenResponse, GuardDenial} from "./types";
+import {getConfig} from "./config";
+import {normalizePathname} from "./pathname";
+
+const DENIED_MESSAGES: Record<401 | 403, DeniedBody> = {
+    401: {error: "unauthorized", status: 401, message: "Authentication required"},
+    403: {error: "forbidden", status: 403, message: "Access denied"},
+};
+
+/**
+ * Build the JSON error body for a denial status
+ */
+export function deniedBody(status: 401 | 403): DeniedBody {
+    return {...DENIED_MESSAGES[status]};
+}
+
+/**
+ * JSON error response with a stable body shape
+ */
+export function deniedJsonResponse(status: 401 | 403): Response {
+    return new Response(JSON.stringify(deniedBody(status)), {
+        status,
+        headers: {"Content-Type": "application/json"},
+    });
+}
+
+/**
+ * Whether the request comes from a script (fetch/XHR) rather than browser navigation
+ */
+export function isApiRequest(request: Request): boolean {
+    if (request.headers.get("X-Requested-With")?.toLowerCase() === "xmlhttprequest") {
+        return true;
+    }
+
+    // Browsers navigating to a page always accept text/html
+    const accept = request.headers.get("Accept")?.toLowerCase() ?? "";
+    return accept.includes("application/json") && !accept.includes("text/html");
+}
+
+/**
+ * Add a query parameter to a redirect target
+ */
+export function appendQueryParam(redirectTo: string, param: string, value: string): string {
+    const target = new URL(redirectTo, "http://localhost");
+    target.searchParams.set(param, value);
+    return target.pathname + target.search + target.hash;
+}
+
+/**
+ * Add the original destination to a redirect target as a query parameter
+ */
+export function appendReturnTo(redirectTo: string, param: string, destination: string): string {
+    return appendQueryParam(redirectTo, param, destination);
+}
+
+/**
+ * Fail instead of sending the user back to the page that was just denied,
+ * which would redirect forever
+ */
+function assertNoRedirectLoop(denial: GuardDenial): void {
+    const target = normalizePathname(denial.redirectTo.split(/[?#]/)[0] as string, getConfig().base);
+    if (target !== denial.pathname) return;
+
+    const deniedBy = denial.rule ? `rule "${denial.rule.pattern}"` : "the default policy";
+    throw new Error(
+        `[SessionKit] Redirect loop: "${denial.pathname}" is denied by ${deniedBy} (${denial.reason}) ` +
+        `and redirects to itself. Add it to public or exclude it from the rule.`
+    );
+}
+
+/** Cookie recording the guard's last redirect target and how many redirects led there in a chain */
+const REDIRECT_COOKIE = "sessionkit_redirects";
+
+/** Redirects in a chain, each from the previous redirect's target, that count as a loop */
+const MAX_REDIRECT_HOPS = 10;
+
+/** Short-lived, site-wide and unreadable by scripts */
+const REDIRECT_COOKIE_OPTIONS = {path: "/", httpOnly: true, sameSite: "lax", maxAge: 30} as
+    Parameters<APIContext["cookies"]["set"]>[2];
+const REDIRECT_COOKIE_DELETE_OPTIONS = {path: "/"} as Parameters<APIContext["cookies"]["delete"]>[1];
+
+/**
+ * Read the redirect cookie, stored as "<hops>:<target pathname>"
+ */
+function readRedirectChain(context: APIContext): {hops: number; target: string} | null {
+    const value = context.cookies.get(REDIRECT_COOKIE)?.value;
+    const separator = value?.indexOf(":") ?? -1;
+    if (!value || separator === -1) return null;
+
+    const hops = Number(value.slice(0, separator));
+    return Number.isInteger(hops) && hops > 0 ? {hops, target: value.slice(separator + 1)} : null;
+}
+
+/**
+ * Count a redirect by the guard, failing once the browser has been bounced
+ * between denied pages too many times in a row (e.g. /a → /b → /a)
+ *
+ * Only a redirect away from the previous redirect's target continues the chain;
+ * unrelated denials (several pages sending a signed-out user to /login) start it over.
+ */
+function countRedirect(context: APIContext, denial: GuardDenial): void {
+    const previous = readRedirectChain(context);
+    const hops = previous?.target === denial.pathname ? previous.hops + 1 : 1;
+    if (hops > MAX_REDIRECT_HOPS) {
+        context.cookies.delete(REDIRECT_COOKIE, REDIRECT_COOKIE_DELETE_OPTIONS);
+        throw new Error(
+            `[SessionKit] Redirect loop: ${MAX_REDIRECT_HOPS} redirects in a row between denied pages ` +
+            `(last: "${denial.pathname}" → "${denial.redirectTo}"). Check that redirect targets are allowed.`
+        );
+    }
+
+    const pathname = denial.redirectTo.split(/[?#]/)[0] as string;
+    const target = normalizePathname(pathname, getConfig().base) ?? pathname;
+    context.cookies.set(REDIRECT_COOKIE, `${hops}:${target}`, REDIRECT_COOKIE_OPTIONS);
+}
+
+/**
+ * Reset the redirect count once a request gets through
+ */
+export function resetRedirectCount(context: APIContext): void {
+    if (context.cookies.has(REDIRECT_COOKIE)) {
+        context.cookies.delete(REDIRECT_COOKIE, REDIRECT_COOKIE_DELETE_OPTIONS);
+    }
+}
+
+/**
+ * Build the response for a denied request
+ *
+ * @param forbidden - How page navigations by signed-in users are answered;
+ * when undefined they are treated like anonymous users
+ */
+export async function createDeniedResponse(
+    context: APIContext,
+    strategy: DeniedResponse,
+    denial: GuardDenial,
+    forbidden?: ForbiddenResponse
+): Promise<Response> {
+    if (typeof strategy === "function") {
+        try {
+            return await strategy(context, denial);
+        } catch (error) {
+            if (process.env.NODE_ENV !== 'production') {
+                console.error('[SessionKit] Error in custom deniedResponse function:', error);
+            }
+            assertNoRedirectLoop(denial);
+            countRedirect(context, denial);
+            return context.redirect(denial.redirectTo);
+        }
+    }
+
+    if (strategy === 401 || strategy === 403) {
+        return deniedJsonResponse(strategy);
+    }
+
+    if (strategy === "negotiate" && isApiRequest(context.request)) {
+        return deniedJsonResponse(denial.status);
+    }
+
+    if (denial.status === 403 && forbidden === 403) {
+        return deniedJsonResponse(403);
+    }
+
+    assertNoRedirectLoop(denial);
+
+    if (denial.status === 403 && forbidden === "rewrite") {
+        return context.rewrite(denial.redirectTo);
+    }
+
+    countRedirect(context, denial);
+    return context.redirect(denial.redirectTo);
+}
@@ -0,0 +1,65 @@
+// ============================================================================
+// Session Expiry - Absolute lifetime and idle timeout
+// ============================================================================
+
+import type {ResolvedConfig} from "./config";
+import type {Session, SessionExpiry} from "./types";
+
+type ExpiryOptions = Pick<ResolvedConfig, "maxAge" | "idleTimeout">;
+
+/**
+ * Why the session has expired, if it has
+ *
+ * Timestamps the session does not carry are not checked.
+ */
+export function findSessionExpiry(session: Session, options: ExpiryOptions, now: number = Date.now()): SessionExpiry | null {
+    if (session.expiresAt !== undefined && now >= session.expiresAt) {
+        return "expires-at";
+    }
+    if (options.maxAge !== null && session.issuedAt !== undefined && now - session.issuedAt >= options.maxAge * 1000) {
+        return "max-age";
+    }
+    if (options.idleTimeout !== null && session.lastSeenAt !== undefined
+        && now - session.lastSeenAt >= options.idleTimeout * 1000) {
+        return "idle";
+    }
+    return null;
+}
+
+/**
+ * Stamp the timestamps the configured lifetimes rely on: issuedAt (if missing) for maxAge,
+ * and lastSeenAt for idleTimeout
+ *
+ * lastSeenAt is only refreshed once a tenth of idleTimeout has passed, so an active
+ * session is not rewritten on every request (it may then expire up to that much early).
+ *
+ * @returns The stamped session, or the same session when nothing needs recording
+ */
+export function touchSession(session: Session, options: ExpiryOptions, now: number = Date.now()): Session {
+    const stampIssued = options.maxAge !== null && session.issuedAt === undefined;
+    const stampSeen = options.idleTimeout !== null
+        && (session.lastSeenAt === undefined || now - session.lastSeenAt >= options.idleTimeout * 100);
+    if (!stampIssued && !stampSeen) {
+        return session;
+    }
+
+    return {
+        ...session,
+        ...(stampIssued ? {issuedAt: now} : {}),
+        ...(stampSeen ? {lastSeenAt: now} : {}),
+    };
+}
+
+/**
+ * Copy the expiry timestamps of the stored session onto a validated one
+ * (schemas that strip unknown keys would otherwise drop them)
+ */
+export function withTimestamps(session: Session, stored: Session): Session {
+    const timestamps: Partial<Session> = {};
+    for (const field of ["issuedAt", "lastSeenAt", "expiresAt"] as const) {
+        if (stored[field] !== undefined) {
+            timestamps[field] = stored[field];
+        }
+    }
+    return Object.keys(timestamps).length > 0 ? {...session, ...timestamps} : session;
+}
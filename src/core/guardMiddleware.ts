@@ -5,70 +5,28 @@
 import type {APIContext, MiddlewareHandler} from "astro";
 import { getContextStore } from "./context";
 import { getConfig } from "./config";
-import { matchesPattern } from "./matcher";
-import type { ProtectionRule, Session } from "./types";
+import { findFirstMatch, resolveRules } from "./matcher";
+import { normalizePathname } from "./pathname";
+import { checkRule } from "./access";
+import { appendQueryParam, appendReturnTo, createDeniedResponse, resetRedirectCount } from "./denial";
+import type {
+  DenialReason,
+  ForbiddenResponse,
+  GrantSource,
+  GuardAllowed,
+  GuardDenial,
+  ProtectionRule,
+  RouteParams,
+  SatisfiedCheck,
+} from "./types";
 
 /**
- * Check if session satisfies a protection rule
+ * Check if a normalized pathname is the target of a configured path (ignoring its query)
  */
-async function checkRule(rule: ProtectionRule, session: Session | null): Promise<boolean> {
-  const { access } = getConfig();
-
-  // Custom check overrides everything
-  if (access.check) {
-    try {
-      return await access.check(rule, session);
-    } catch (error) {
-      if (process.env.NODE_ENV !== 'production') {
-        console.error('[SessionKit] Error in custom access check hook:', error);
-      }
-      return false;
-    }
-  }
-
-  // Custom allow function
-  if ("allow" in rule) {
-    try {
-      return await rule.allow(session);
-    } catch (error) {
-      if (process.env.NODE_ENV !== 'production') {
-        console.error('[SessionKit] Error in custom rule allow function:', error);
-      }
-      return false;
-    }
-  }
-
-  // Must be authenticated for all other checks
-  if (!session) {
-    return false;
-  }
-
-  // Single role check
-  if ("role" in rule) {
-    const userRole = access.getRole(session);
-    return userRole === rule.role;
-  }
-
-  // Multiple roles check (user must have ONE of these)
-  if ("roles" in rule) {
-    const userRole = access.getRole(session);
-    return userRole !== null && rule.roles.includes(userRole);
-  }
-
-  // Single permission check
-  if ("permission" in rule) {
-    const userPermissions = access.getPermissions(session);
-    return userPermissions.includes(rule.permission);
-  }
-
-  // Multiple permissions check (user must have ALL of these)
-  if ("permissions" in rule) {
-    const userPermissions = access.getPermissions(session);
-    return rule.permissions.every((p) => userPermissions.includes(p));
-  }
-
-  // No specific rule matched - allow by default
-  return true;
+function isSamePage(pathname: string, path: string | null, base: string): boolean {
+  if (!path) return false;
+  const targetPathname = path.split(/[?#]/)[0] as string;
+  return normalizePathname(targetPathname, base) === pathname;
 }
 
 /**
@@ -76,39 +34,200 @@ async function checkRule(rule: ProtectionRule, session: Session | null): Promise
  */
 export function createGuardMiddleware(): MiddlewareHandler {
   return async (context : APIContext, next) => {
-    const { protect, loginPath } = getConfig();
-    
-    // No rules configured - skip
-    if (protect.length === 0) {
+    const {
+      protect,
+      ruleTable,
+      ruleResolution,
+      publicTable,
+      defaultPolicy,
+      deniedResponse,
+      forbiddenPath,
+      forbiddenResponse,
+      returnToParam,
+      expiredParam,
+      onAllowed,
+      onDenied,
+      reportOnly,
+      base,
+      loginPath,
+    } = getConfig();
+
+    // No rules configured and nothing denied by default - skip
+    if (protect.length === 0 && defaultPolicy === "allow") {
       return next();
     }
 
-    let pathname: string;
+    let url: URL;
     try {
-      pathname = new URL(context.request.url).pathname;
+      url = new URL(context.request.url);
     } catch {
       // Fallback if URL is invalid (unlikely in Astro)
-      pathname = "/";
+      url = new URL("/", "http://localhost");
     }
+
+    // Normalize so every spelling of a route matches the same rules
+    const pathname = normalizePathname(url.pathname, base);
+    if (pathname === null) {
+      return new Response("Bad Request", { status: 400 });
+    }
+
     const sessionContext = getContextStore();
     const session = sessionContext?.session ?? null;
 
-    // Find matching rule
-    const rule = protect.find((r) => matchesPattern(r.pattern, pathname));
-    
-    // No matching rule - allow
-    if (!rule) {
+    // Let the request through, recording the decision for pages and the hook
+    const allow = async (
+      rule: ProtectionRule | null,
+      pattern: string | null,
+      params: RouteParams,
+      grantedBy: GrantSource,
+      satisfied: SatisfiedCheck[] = []
+    ) => {
+      const decision: GuardAllowed = { allowed: true, pathname, rule, pattern, params, session, grantedBy, satisfied };
+      context.locals.accessDecision = decision;
+      resetRedirectCount(context);
+
+      if (onAllowed) {
+        try {
+          await onAllowed(decision, context);
+        } catch (error) {
+          if (process.env.NODE_ENV !== 'production') {
+            console.error('[SessionKit] Error in onAllowed hook:', error);
+          }
+        }
+      }
       return next();
+    };
+
+    // Describe a denial by a rule (or by the default policy when null).
+    // Signed-in users go to the forbidden page, if any, instead of looping back to login.
+    const describeDenial = (rule: ProtectionRule | null, params: RouteParams, reason: DenialReason) => {
+      // A signed-out user whose session just expired was signed in a moment ago
+      if (reason === "no-session" && sessionContext?.expired) {
+        reason = "session-expired";
+      }
+
+      const hasForbiddenPath = Boolean(rule?.forbiddenPath ?? forbiddenPath);
+      const forbidden = session
+        ? rule?.forbiddenResponse ?? forbiddenResponse ?? (hasForbiddenPath ? "redirect" : undefined)
+        : undefined;
+      let redirectTo = forbidden
+        ? rule?.forbiddenPath ?? forbiddenPath ?? loginPath
+        : rule?.redirectTo ?? loginPath;
+
+      // Only page loads can be resumed by redirecting back after login
+      const method = context.request.method.toUpperCase();
+      if (returnToParam && !forbidden && (method === "GET" || method === "HEAD")) {
+        redirectTo = appendReturnTo(redirectTo, returnToParam, url.pathname + url.search);
+      }
+      if (expiredParam && reason === "session-expired") {
+        redirectTo = appendQueryParam(redirectTo, expiredParam, reason);
+      }
+
+      const denial: GuardDenial = {
+        allowed: false,
+        pathname,
+        rule,
+        params,
+        session,
+        reason,
+        status: session ? 403 : 401,
+        redirectTo,
+        reportOnly: rule?.reportOnly ?? reportOnly,
+      };
+
+      return { denial, forbidden };
+    };
+
+    // Record a denial that is not enforced; the request continues
+    const report = async (denial: GuardDenial) => {
+      if (!onDenied) {
+        console.warn(
+          `[SessionKit] Report-only: would deny ${context.request.method} ${denial.pathname} (${denial.reason})`
+        );
+        return;
+      }
+
+      try {
+        await onDenied(denial, context);
+      } catch (error) {
+        if (process.env.NODE_ENV !== 'production') {
+          console.error('[SessionKit] Error in onDenied hook:', error);
+        }
+      }
+    };
+
+    // Respond to an enforced denial
+    const deny = async (denial: GuardDenial, forbidden: ForbiddenResponse | undefined) => {
+      // The hook may replace the response
+      if (onDenied) {
+        try {
+          const replacement = await onDenied(denial, context);
+          if (replacement instanceof Response) {
+            return replacement;
+          }
+        } catch (error) {
+          if (process.env.NODE_ENV !== 'production') {
+            console.error('[SessionKit] Error in onDenied hook:', error);
+          }
+        }
+      }
+
+      return createDeniedResponse(context, denial.rule?.deniedResponse ?? deniedResponse, denial, forbidden);
+    };
+
+    // Public paths are never protected
+    const publicMatch = findFirstMatch(publicTable, pathname);
+    if (publicMatch) {
+      return allow(null, publicMatch.rule.pattern, {}, "public");
     }
 
-    // Check if access is allowed
-    const allowed = await checkRule(rule, session);
+    // Find the rules that apply
+    const matches = resolveRules(ruleTable, pathname, ruleResolution, context.request.method);
+
+    // No matching rule - apply the default policy (the login and forbidden pages always stay reachable)
+    if (matches.length === 0) {
+      if (
+        defaultPolicy === "allow" ||
+        (defaultPolicy === "authenticated" && session) ||
+        isSamePage(pathname, loginPath, base) ||
+        isSamePage(pathname, forbiddenPath, base)
+      ) {
+        return allow(null, null, {}, "default-policy");
+      }
+      const { denial, forbidden } = describeDenial(
+        null,
+        {},
+        defaultPolicy === "authenticated" ? "no-session" : "default-policy"
+      );
+      if (denial.reportOnly) {
+        await report(denial);
+        return allow(null, null, {}, "default-policy");
+      }
+      return deny(denial, forbidden);
+    }
 
-    if (!allowed) {
-      const redirectTo = rule.redirectTo ?? loginPath;
-      return context.redirect(redirectTo);
+    // Every applicable rule must allow access (report-only rules are recorded and skipped)
+    const satisfied: SatisfiedCheck[] = [];
+    let granted: (typeof matches)[number] | undefined;
+    for (const match of matches) {
+      const { rule, params } = match;
+      const reason = await checkRule(rule, session, params, satisfied);
+      if (!reason) {
+        granted ??= match;
+        continue;
+      }
+
+      const { denial, forbidden } = describeDenial(rule, params, reason);
+      if (!denial.reportOnly) {
+        return deny(denial, forbidden);
+      }
+      await report(denial);
     }
 
-    return next();
+    // Name the first rule that actually passed, not one whose denial was only reported
+    if (!granted) {
+      return allow(null, null, {}, "report-only");
+    }
+    return allow(granted.rule, granted.rule.pattern, granted.params, "rule", satisfied);
   };
 }
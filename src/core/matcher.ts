@@ -2,13 +2,25 @@
 // Route Pattern Matching
 // ============================================================================
 
+import type { RouteParams, RuleResolution } from "./types";
+import { normalizePattern } from "./pathname";
+
 function escapeRegex(str: string): string {
   return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
-function globToRegex(pattern: string): RegExp {
+/**
+ * A pattern compiled to a RegExp, with the names of its capture groups
+ */
+interface CompiledPattern {
+  regex: RegExp;
+  paramNames: string[];
+}
+
+function globToRegex(pattern: string, caseSensitive: boolean): CompiledPattern {
   let regex = "";
   let i = 0;
+  const paramNames: string[] = [];
 
   while (i < pattern.length) {
     const char = pattern[i];
@@ -41,6 +53,30 @@ function globToRegex(pattern: string): RegExp {
       continue;
     }
 
+    // Handle Astro dynamic segments: [param] and [...rest]
+    if (char === "[") {
+      const end = pattern.indexOf("]", i);
+      if (end !== -1) {
+        const name = pattern.slice(i + 1, end);
+        if (name.startsWith("...")) {
+          // "/[...rest]" matches zero or more segments, like "/**"
+          paramNames.push(name.slice(3));
+          if (regex.endsWith("/")) {
+            regex = regex.slice(0, -1);
+            regex += "(?:/(.*))?";
+          } else {
+            regex += "(.*)";
+          }
+        } else {
+          // "[param]" matches within a single segment
+          paramNames.push(name);
+          regex += "([^/]+)";
+        }
+        i = end + 1;
+        continue;
+      }
+    }
+
     // Handle *
     if (char === "*") {
       // one or more segments (to maintain backward compatibility with previous tests)
@@ -53,9 +89,350 @@ function globToRegex(pattern: string): RegExp {
     i += 1;
   }
 
-  return new RegExp(`^${regex}$`);
+  return { regex: new RegExp(`^${regex}$`, caseSensitive ? "" : "i"), paramNames };
+}
+
+const patternCache = new Map<string, CompiledPattern>();
+
+function compilePattern(pattern: string, caseSensitive = true): CompiledPattern {
+  const key = caseSensitive ? pattern : `i:${pattern}`;
+  let compiled = patternCache.get(key);
+  if (!compiled) {
+    compiled = globToRegex(pattern, caseSensitive);
+    patternCache.set(key, compiled);
+  }
+  return compiled;
+}
+
+function execPattern(compiled: CompiledPattern, path: string): RouteParams | null {
+  const match = compiled.regex.exec(path);
+  if (!match) return null;
+
+  const params: RouteParams = {};
+  compiled.paramNames.forEach((name, index) => {
+    // Astro leaves an empty rest parameter undefined
+    params[name] = match[index + 1] || undefined;
+  });
+  return params;
 }
 
 export function matchesPattern(pattern: string, path: string): boolean {
-  return globToRegex(pattern).test(path);
+  return compilePattern(pattern).regex.test(path);
+}
+
+/**
+ * Match a path against a pattern, returning the captured params (null if no match)
+ */
+export function matchPattern(pattern: string, path: string): RouteParams | null {
+  return execPattern(compilePattern(pattern), path);
+}
+
+// ============================================================================
+// Rule Table - Precompiled, indexed rule lookup
+// ============================================================================
+
+/**
+ * Anything that can be indexed in a rule table
+ */
+export interface MatchableRule {
+  pattern: string;
+  exclude?: string[];
+  methods?: string[];
+}
+
+/**
+ * A rule paired with its compiled pattern and declaration order
+ */
+export interface CompiledRule<T extends MatchableRule> {
+  rule: T;
+  index: number;
+  pattern: CompiledPattern;
+  exclude: RegExp[];
+  /** Upper-cased methods the rule applies to (null = any method) */
+  methods: Set<string> | null;
+  specificity: number[];
+}
+
+/**
+ * A rule that matched a path, with the params its pattern captured
+ */
+export interface RuleMatch<T extends MatchableRule> extends CompiledRule<T> {
+  params: RouteParams;
+}
+
+interface TrieNode<T extends MatchableRule> {
+  children: Map<string, TrieNode<T>>;
+  /** Child for a [param] segment, which matches any one path segment */
+  dynamic: TrieNode<T> | null;
+  rules: CompiledRule<T>[];
+}
+
+/**
+ * Rules indexed by the segments that prefix their pattern: literal ones, and
+ * [param] ones that match any single segment. Only rules whose prefix lies on
+ * the request path are tested against it.
+ */
+export interface RuleTable<T extends MatchableRule> {
+  root: TrieNode<T>;
+  size: number;
+  caseSensitive: boolean;
+}
+
+/**
+ * How a rule table compiles its patterns
+ */
+export interface RuleTableOptions {
+  /** Match letter case exactly (default: true) */
+  caseSensitive?: boolean;
+
+  /** Drop trailing slashes from patterns, for use with normalized pathnames (default: false) */
+  ignoreTrailingSlash?: boolean;
+}
+
+function createNode<T extends MatchableRule>(): TrieNode<T> {
+  return { children: new Map(), dynamic: null, rules: [] };
+}
+
+function splitSegments(path: string): string[] {
+  return path.slice(1).split("/");
+}
+
+/** Prefix entry standing for a [param] segment */
+const DYNAMIC_SEGMENT = Symbol("dynamic");
+
+type PrefixSegment = string | typeof DYNAMIC_SEGMENT;
+
+const SINGLE_SEGMENT_PARAMS = /^(?:[^[\]]|\[[^[\]]*\])*$/;
+
+/**
+ * Segments a path must start with for the pattern to match: literal segments,
+ * and DYNAMIC_SEGMENT for [param] segments, which match exactly one segment.
+ * The prefix ends at the first segment that may span several ("*", "**", "[...rest]").
+ *
+ * A "**" segment in the middle of a pattern swallows the slash before it,
+ * so the segment preceding it is not guaranteed to appear on its own in the
+ * path and is dropped from the prefix.
+ */
+function patternPrefix(pattern: string): PrefixSegment[] {
+  if (!pattern.startsWith("/")) return [];
+
+  const segments = splitSegments(pattern);
+  const prefix: PrefixSegment[] = [];
+
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i] as string;
+    if (!segment.includes("*") && !segment.includes("[")) {
+      prefix.push(segment);
+      continue;
+    }
+    // Brackets closed within the segment, none of them [...rest]
+    if (!segment.includes("*") && !segment.includes("[...") && SINGLE_SEGMENT_PARAMS.test(segment)) {
+      prefix.push(DYNAMIC_SEGMENT);
+      continue;
+    }
+    if (segment === "**" && i < segments.length - 1) {
+      prefix.pop();
+    }
+    break;
+  }
+
+  return prefix;
+}
+
+// Segment ranks used to order patterns by specificity
+const LITERAL_RANK = 3;
+const WILDCARD_RANK = 2;
+const END_RANK = 1;
+const GLOBSTAR_RANK = 0;
+
+/**
+ * Rank each pattern segment: literal > "*" or [param] > end of pattern > "**" or [...rest]
+ */
+function patternSpecificity(pattern: string): number[] {
+  const ranks = splitSegments(pattern).map((segment): number => {
+    if (segment.includes("**") || segment.includes("[...")) return GLOBSTAR_RANK;
+    if (segment.includes("*") || segment.includes("[")) return WILDCARD_RANK;
+    return LITERAL_RANK;
+  });
+  ranks.push(END_RANK);
+  return ranks;
+}
+
+function compareSpecificity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    const diff = (b[i] as number) - (a[i] as number);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Methods a rule applies to. HEAD is served by GET handlers,
+ * so a rule covering GET also covers HEAD.
+ */
+function compileMethods(methods: string[] | undefined): Set<string> | null {
+  if (!methods || methods.length === 0) return null;
+
+  const set = new Set(methods.map((method) => method.toUpperCase()));
+  if (set.has("GET")) set.add("HEAD");
+  return set;
+}
+
+/**
+ * Compile rules once into an indexed table
+ */
+export function createRuleTable<T extends MatchableRule>(
+  rules: readonly T[],
+  options: RuleTableOptions = {}
+): RuleTable<T> {
+  const { caseSensitive = true, ignoreTrailingSlash = false } = options;
+  const root = createNode<T>();
+  const prepare = (pattern: string) => (ignoreTrailingSlash ? normalizePattern(pattern) : pattern);
+
+  rules.forEach((rule, index) => {
+    const pattern = prepare(rule.pattern);
+    let node = root;
+    for (const prefixSegment of patternPrefix(pattern)) {
+      if (prefixSegment === DYNAMIC_SEGMENT) {
+        node.dynamic ??= createNode<T>();
+        node = node.dynamic;
+        continue;
+      }
+      const segment = caseSensitive ? prefixSegment : prefixSegment.toLowerCase();
+      let child = node.children.get(segment);
+      if (!child) {
+        child = createNode<T>();
+        node.children.set(segment, child);
+      }
+      node = child;
+    }
+    node.rules.push({
+      rule,
+      index,
+      pattern: compilePattern(pattern, caseSensitive),
+      exclude: (rule.exclude ?? []).map((excluded) => compilePattern(prepare(excluded), caseSensitive).regex),
+      methods: compileMethods(rule.methods),
+      specificity: patternSpecificity(pattern),
+    });
+  });
+
+  return { root, size: rules.length, caseSensitive };
+}
+
+function matchRule<T extends MatchableRule>(
+  compiled: CompiledRule<T>,
+  path: string,
+  method: string | undefined
+): RuleMatch<T> | null {
+  if (method !== undefined && compiled.methods && !compiled.methods.has(method.toUpperCase())) {
+    return null;
+  }
+  if (compiled.exclude.some((regex) => regex.test(path))) {
+    return null;
+  }
+
+  const params = execPattern(compiled.pattern, path);
+  return params ? { ...compiled, params } : null;
+}
+
+/**
+ * Rules whose prefix lies on the path, in declaration order
+ */
+function findCandidates<T extends MatchableRule>(table: RuleTable<T>, path: string): CompiledRule<T>[] {
+  const candidates: CompiledRule<T>[] = [...table.root.rules];
+  let nodes: TrieNode<T>[] = [table.root];
+
+  for (const segment of splitSegments(path)) {
+    const key = table.caseSensitive ? segment : segment.toLowerCase();
+    const next: TrieNode<T>[] = [];
+    for (const node of nodes) {
+      const literal = node.children.get(key);
+      if (literal) next.push(literal);
+      // [param] never matches an empty segment
+      if (node.dynamic && segment !== "") next.push(node.dynamic);
+    }
+    if (next.length === 0) break;
+
+    for (const node of next) {
+      candidates.push(...node.rules);
+    }
+    nodes = next;
+  }
+
+  // Nodes along different branches hold interleaved rules
+  return candidates.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Find every rule matching the path (and not excluding it), in declaration order.
+ * When a method is given, rules scoped to other methods are skipped.
+ */
+export function matchRules<T extends MatchableRule>(
+  table: RuleTable<T>,
+  path: string,
+  method?: string
+): RuleMatch<T>[] {
+  if (table.size === 0) return [];
+
+  const matches: RuleMatch<T>[] = [];
+  for (const compiled of findCandidates(table, path)) {
+    const match = matchRule(compiled, path, method);
+    if (match) matches.push(match);
+  }
+  return matches;
+}
+
+/**
+ * Find the first declared rule matching the path, testing no rule after it
+ */
+export function findFirstMatch<T extends MatchableRule>(
+  table: RuleTable<T>,
+  path: string,
+  method?: string
+): RuleMatch<T> | null {
+  if (table.size === 0) return null;
+
+  for (const compiled of findCandidates(table, path)) {
+    const match = matchRule(compiled, path, method);
+    if (match) return match;
+  }
+  return null;
+}
+
+/**
+ * Select the rules that apply to the path under a resolution mode
+ *
+ * - "first-match": the first declared matching rule
+ * - "most-specific": the matching rule with the most specific pattern
+ * - "all": every matching rule, in declaration order
+ */
+export function resolveRules<T extends MatchableRule>(
+  table: RuleTable<T>,
+  path: string,
+  resolution: RuleResolution,
+  method?: string
+): RuleMatch<T>[] {
+  if (resolution === "first-match") {
+    const match = findFirstMatch(table, path, method);
+    return match ? [match] : [];
+  }
+
+  const matches = matchRules(table, path, method);
+  if (matches.length === 0) return [];
+
+  if (resolution === "all") {
+    return matches;
+  }
+
+  if (resolution === "most-specific") {
+    // Method-scoped rules beat unscoped ones on the same pattern.
+    // Array.prototype.sort is stable, so remaining ties keep declaration order.
+    const [best] = [...matches].sort((a, b) =>
+      compareSpecificity(a.specificity, b.specificity) || Number(b.methods !== null) - Number(a.methods !== null)
+    );
+    return [best as RuleMatch<T>];
+  }
+
+  return matches;
 }
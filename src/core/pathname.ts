@@ -0,0 +1,68 @@
+// ============================================================================
+// Pathname Normalization - Canonical form used for rule matching
+// ============================================================================
+
+/**
+ * Normalize a request pathname before matching it against patterns.
+ *
+ * Every spelling of a route that Astro would serve must normalize to the same
+ * string, otherwise a rule can be bypassed (e.g. "/%61dmin" or "//admin/").
+ *
+ * 1. Split on the raw "/" and percent-decode each segment once, keeping "%2F" and "%5C" encoded as Astro does when routing
+ * 2. Collapse duplicate slashes
+ * 3. Resolve literal "." and ".." segments
+ * 4. Strip the site base path
+ * 5. Drop the trailing slash (except for the root)
+ *
+ * An encoded separator stays part of its segment ("/blog/a%2Fb" is served to [slug]),
+ * so the guard checks the same path Astro serves. A segment that only becomes "." or
+ * ".." once decoded is rejected rather than resolved, for the same reason.
+ *
+ * @returns The normalized pathname, or null if it cannot be decoded safely
+ */
+export function normalizePathname(pathname: string, base = ""): string | null {
+    const segments: string[] = [];
+    for (const raw of pathname.split("/")) {
+        if (raw === "" || raw === ".") continue;
+        if (raw === "..") {
+            segments.pop();
+            continue;
+        }
+
+        let segment: string;
+        try {
+            // Escape the "%" of encoded separators so they survive decoding
+            segment = decodeURIComponent(raw.replace(/%(2f|5c)/gi, (escape) => "%25" + escape.slice(1).toUpperCase()));
+        } catch {
+            // Malformed percent-encoding
+            return null;
+        }
+        if (segment === "." || segment === "..") {
+            return null;
+        }
+        segments.push(segment);
+    }
+
+    let normalized = "/" + segments.join("/");
+
+    if (base && (normalized === base || normalized.startsWith(base + "/"))) {
+        normalized = normalized.slice(base.length) || "/";
+    }
+
+    return normalized;
+}
+
+/**
+ * Normalize a configured base path: leading slash, no trailing slash, "" for the root
+ */
+export function normalizeBase(base: string): string {
+    const trimmed = base.replace(/^\/+|\/+$/g, "");
+    return trimmed ? "/" + trimmed : "";
+}
+
+/**
+ * Drop the trailing slash of a pattern so it matches normalized pathnames
+ */
+export function normalizePattern(pattern: string): string {
+    return pattern.length > 1 && pattern.endsWith("/") ? pattern.slice(0, -1) : pattern;
+}
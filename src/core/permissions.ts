@@ -0,0 +1,74 @@
+// ============================================================================
+// Permission Matching - Namespaces, wildcards and implied actions
+// ============================================================================
+
+import type {PermissionMatchingOptions} from "./types";
+
+/** Whether any of the granted permissions satisfies the required one */
+export type PermissionMatcher = (granted: readonly string[], required: string) => boolean;
+
+/** Exact string comparison, used unless permission matching is configured */
+export const exactPermissionMatcher: PermissionMatcher = (granted, required) => granted.includes(required);
+
+/**
+ * Resolve which actions each action implies, transitively
+ */
+function resolveImplications(implies: Record<string, string[]>): Map<string, Set<string>> {
+    const resolved = new Map<string, Set<string>>();
+
+    for (const action of Object.keys(implies)) {
+        const implied = new Set<string>();
+        const pending = [...implies[action] ?? []];
+
+        while (pending.length > 0) {
+            const next = pending.pop() as string;
+            if (implied.has(next)) continue;
+            implied.add(next);
+            pending.push(...(Object.hasOwn(implies, next) ? implies[next] ?? [] : []));
+        }
+
+        resolved.set(action, implied);
+    }
+
+    return resolved;
+}
+
+/**
+ * Create a matcher for namespaced permissions such as "posts:write"
+ *
+ * - A wildcard segment matches any one segment ("posts:*:read")
+ * - A trailing wildcard matches every remaining segment ("posts:*", "*")
+ * - The last segment of a grant also matches the actions it implies ("posts:write" → "posts:read")
+ */
+export function createPermissionMatcher(options: PermissionMatchingOptions = {}): PermissionMatcher {
+    const separator = options.separator ?? ":";
+    const wildcard = options.wildcard ?? "*";
+    const implications = resolveImplications(options.implies ?? {});
+
+    const grantMatches = (grant: string, required: string): boolean => {
+        if (grant === required) return true;
+
+        const grantSegments = grant.split(separator);
+        const requiredSegments = required.split(separator);
+        const last = grantSegments.length - 1;
+
+        for (let i = 0; i <= last; i++) {
+            const segment = grantSegments[i];
+
+            if (segment === wildcard && i === last) {
+                return requiredSegments.length > i;
+            }
+            if (i >= requiredSegments.length) return false;
+            if (segment === wildcard || segment === requiredSegments[i]) continue;
+
+            const isAction = i === last && i === requiredSegments.length - 1;
+            if (isAction && implications.get(segment as string)?.has(requiredSegments[i] as string)) continue;
+
+            return false;
+        }
+
+        return grantSegments.length === requiredSegments.length;
+    };
+
+    return (granted, required) => granted.some((grant) => grantMatches(grant, required));
+}
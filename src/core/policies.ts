@@ -0,0 +1,71 @@
+// ============================================================================
+// Policies - Attribute-based rules per resource type
+// ============================================================================
+
+import type {Policy, PolicyActions, PolicySubject, Session} from "./types";
+
+const policies = new Map<string, Policy>();
+
+/**
+ * Register the rules for a resource type. Defining a policy again replaces it.
+ *
+ * @example
+ * ```ts
+ * export const postPolicy = definePolicy<Post>("post", {
+ *   view: () => true,
+ *   edit: (session, post) => session?.userId === post.authorId,
+ * });
+ * ```
+ */
+export function definePolicy<R = unknown>(name: string, actions: PolicyActions<R>): Policy<R> {
+    if (typeof name !== "string" || name.length === 0) {
+        throw new Error('[SessionKit] Invalid policy name: must be a non-empty string.');
+    }
+    for (const [action, check] of Object.entries(actions)) {
+        if (typeof check !== "function") {
+            throw new Error(`[SessionKit] Invalid action "${action}" in policy "${name}": must be a function.`);
+        }
+    }
+
+    const policy: Policy<R> = {name, actions};
+    policies.set(name, policy as Policy);
+    return policy;
+}
+
+/**
+ * Pair a resource with the policy that governs it, for `can`
+ */
+export function subject<R>(policy: string | Policy<R>, resource: R): PolicySubject<R> {
+    return {policy: typeof policy === "string" ? policy : policy.name, resource};
+}
+
+/**
+ * Remove every registered policy
+ */
+export function clearPolicies(): void {
+    policies.clear();
+}
+
+/**
+ * Whether the policy allows the action on the resource
+ *
+ * @throws {Error} If the policy or the action is not defined
+ */
+export async function evaluatePolicy(
+    name: string,
+    action: string,
+    session: Session | null,
+    resource: unknown
+): Promise<boolean> {
+    const policy = policies.get(name);
+    if (!policy) {
+        throw new Error(`[SessionKit] Unknown policy "${name}". Register it with definePolicy.`);
+    }
+
+    const check = Object.hasOwn(policy.actions, action) ? policy.actions[action] : undefined;
+    if (!check) {
+        throw new Error(`[SessionKit] Policy "${name}" does not define action "${action}".`);
+    }
+
+    return Boolean(await check(session, resource));
+}
@@ -0,0 +1,96 @@
+// ============================================================================
+// Roles - Inheritance and the permissions each role grants
+// ============================================================================
+
+import type {RoleDefinitions, RoleHierarchy} from "./types";
+
+/** Every role a role grants (excluding itself), by role name */
+export type RoleGraph = ReadonlyMap<string, ReadonlySet<string>>;
+
+/** Every permission a role grants, including those of inherited roles */
+export type RolePermissions = ReadonlyMap<string, ReadonlySet<string>>;
+
+/**
+ * Resolve the inheritance of each role in a hierarchy
+ *
+ * @throws {Error} If a role inherits itself, directly or through other roles
+ */
+export function compileRoleHierarchy(hierarchy: RoleHierarchy): RoleGraph {
+    const graph = new Map<string, Set<string>>();
+
+    const resolve = (role: string, path: string[]): Set<string> => {
+        const resolved = graph.get(role);
+        if (resolved) return resolved;
+
+        if (path.includes(role)) {
+            const cycle = [...path.slice(path.indexOf(role)), role].join(" → ");
+            throw new Error(`[SessionKit] Cycle in roleHierarchy: ${cycle}`);
+        }
+
+        const inherited = new Set<string>();
+        const children = Object.hasOwn(hierarchy, role) ? hierarchy[role] ?? [] : [];
+        for (const child of children) {
+            inherited.add(child);
+            for (const grandchild of resolve(child, [...path, role])) {
+                inherited.add(grandchild);
+            }
+        }
+
+        graph.set(role, inherited);
+        return inherited;
+    };
+
+    for (const role of Object.keys(hierarchy)) {
+        resolve(role, []);
+    }
+
+    return graph;
+}
+
+/**
+ * Whether holding `role` satisfies a check for `required`
+ */
+export function roleGrants(graph: RoleGraph, role: string, required: string): boolean {
+    return role === required || (graph.get(role)?.has(required) ?? false);
+}
+
+/**
+ * Resolve the permissions each role grants, merging in the permissions of the roles it inherits
+ */
+export function compileRolePermissions(definitions: RoleDefinitions, graph: RoleGraph): RolePermissions {
+    const own = (role: string) => (Object.hasOwn(definitions, role) ? definitions[role]?.permissions ?? [] : []);
+    const rolePermissions = new Map<string, Set<string>>();
+
+    for (const role of new Set([...Object.keys(definitions), ...graph.keys()])) {
+        const permissions = new Set(own(role));
+        for (const inherited of graph.get(role) ?? []) {
+            for (const permission of own(inherited)) {
+                permissions.add(permission);
+            }
+        }
+        if (permissions.size > 0) {
+            rolePermissions.set(role, permissions);
+        }
+    }
+
+    return rolePermissions;
+}
+
+/**
+ * Effective permissions of a user: those granted by their roles plus direct grants
+ */
+export function effectivePermissions(
+    rolePermissions: RolePermissions,
+    roles: readonly (string | null | undefined)[],
+    direct: readonly string[]
+): string[] {
+    if (rolePermissions.size === 0) return [...direct];
+
+    const permissions = new Set(direct);
+    for (const role of roles) {
+        for (const permission of (role && rolePermissions.get(role)) || []) {
+            permissions.add(permission);
+        }
+    }
+    return [...permissions];
+}
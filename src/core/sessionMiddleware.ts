@@ -4,8 +4,9 @@
 
 import type {MiddlewareHandler} from "astro";
 import {runWithContext as defaultRunWithContext} from "./context";
-import {isValidSessionStructure} from "./validation";
-import type {Session} from "./types";
+import {checkSession, formatSessionIssues} from "./validation";
+import {findSessionExpiry, touchSession, withTimestamps} from "./expiry";
+import type {Session, SessionExpiry} from "./types";
 import {getConfig} from "./config";
 
 /**
@@ -21,29 +22,53 @@ const SESSION_KEY = "__session__";
  */
 export const sessionMiddleware: MiddlewareHandler = async (context, next) => {
     // Get session from context.session store
-    const rawSession = context.session?.get<Session>(SESSION_KEY) ?? null;
+    const rawSession = (await context.session?.get<Session>(SESSION_KEY)) ?? null;
 
-    // Validate session structure if present
+    const config = getConfig();
+
+    // Validate session structure (and the custom validator) if present
     let session: Session | null = null;
 
     if (rawSession) {
-        if (isValidSessionStructure(rawSession)) {
-            session = rawSession;
+        const result = await checkSession(rawSession, config.sessionLimits, config.validateSession);
+        if (result.session) {
+            session = result.session;
         } else {
             // Invalid session structure - log warning and treat as unauthenticated
             if (process.env.NODE_ENV !== 'production') {
                 console.warn(
                     '[SessionKit] Invalid session structure detected. Session will be ignored. ' +
-                    'Ensure context.session.set("__session__", ...) has the correct structure.'
+                    'Ensure context.session.set("__session__", ...) has the correct structure. ' +
+                    `Issues: ${formatSessionIssues(result.issues)}`
                 );
             }
             session = null;
         }
     }
 
-    // Run the rest of the request chain with session context
-    const config = getConfig();
+    // Expired sessions are cleared and the request continues anonymously;
+    // the guard is told why so it can say so in its redirect.
+    // Expiry is judged on the stored session, which passed the built-in checks:
+    // the validator's output may have dropped the timestamps.
+    let expired: SessionExpiry | undefined;
 
+    if (session && rawSession) {
+        const now = Date.now();
+        const expiry = findSessionExpiry(rawSession, config, now);
+        if (expiry) {
+            context.session?.delete(SESSION_KEY);
+            expired = expiry;
+            session = null;
+        } else {
+            const touched = touchSession(rawSession, config, now);
+            if (touched !== rawSession) {
+                context.session?.set(SESSION_KEY, touched);
+            }
+            session = withTimestamps(session, touched);
+        }
+    }
+
+    // Run the rest of the request chain with session context
     // If getContextStore is provided, but runWithContext is NOT,
     // we assume the user is managing the context at a superior level
     // and we should NOT wrap the call in our default runner.
@@ -52,8 +77,9 @@ export const sessionMiddleware: MiddlewareHandler = async (context, next) => {
         const store = config.getContextStore();
         if (store) {
             store.session = session;
+            store.expired = expired;
         } else if (config.setContextStore) {
-            config.setContextStore({session});
+            config.setContextStore({session, expired});
         } else if (process.env.NODE_ENV !== 'production') {
             console.error('[SessionKit] getContextStore returned undefined, cannot set session');
         }
@@ -61,5 +87,5 @@ export const sessionMiddleware: MiddlewareHandler = async (context, next) => {
     }
 
     const runner = config.runWithContext ?? defaultRunWithContext;
-    return runner({session}, () => next());
+    return runner({session, expired}, () => next());
 };
\ No newline at end of file
@@ -2,11 +2,43 @@
 // Core Session Types
 // ============================================================================
 
+import type { APIContext } from "astro";
+
+declare global {
+  namespace SessionKit {
+    /**
+     * Augment to type your app's sessions, roles and permissions:
+     *
+     * ```ts
+     * // src/env.d.ts
+     * declare namespace SessionKit {
+     *   interface Register {
+     *     session: { tenantId: string };
+     *     role: "owner" | "admin" | "viewer";
+     *     permission: "posts:read" | "posts:write";
+     *   }
+     * }
+     * ```
+     */
+    interface Register {}
+  }
+}
+
+type Registered<K extends string, Fallback> = SessionKit.Register extends Record<K, infer T> ? T : Fallback;
+
+/** Custom session fields registered through SessionKit.Register (none by default) */
+export type RegisteredSession = Registered<"session", {}>;
+
+/** Role names, narrowed when registered through SessionKit.Register */
+export type Role = Registered<"role", string>;
+
+/** Permission names checked by rules and helpers, narrowed when registered through SessionKit.Register */
+export type Permission = Registered<"permission", string>;
+
 /**
- * The session object stored in context.locals.session
- * This is what your Astro app provides - we just read it.
+ * Built-in session fields
  */
-export interface Session {
+export interface BaseSession {
   /** Unique user identifier */
   userId: string;
 
@@ -14,69 +46,517 @@ export interface Session {
   email?: string;
 
   /** Primary role */
-  role?: string;
+  role?: Role;
 
   /** Additional roles for multi-role scenarios */
-  roles?: string[];
+  roles?: Role[];
 
-  /** Fine-grained permissions */
+  /** Fine-grained permissions (may include wildcard grants such as "posts:*") */
   permissions?: string[];
 
+  /** When the session was created (ms since epoch), for maxAge */
+  issuedAt?: number;
+
+  /** When the session was last used (ms since epoch), for idleTimeout */
+  lastSeenAt?: number;
+
+  /** Absolute deadline set by your app (ms since epoch) */
+  expiresAt?: number;
+
   /** Any additional custom data */
   [key: string]: unknown;
 }
 
+/**
+ * The session object stored in context.session
+ * This is what your Astro app provides - we just read it.
+ * Custom fields registered through SessionKit.Register are typed.
+ */
+export type Session = BaseSession & RegisteredSession;
+
+/** Keys of a type, without those of its index signature */
+type KnownKeys<T> = keyof {
+  [K in keyof T as string extends K ? never : number extends K ? never : K]: T[K];
+};
+
+/** Session field names: the known ones once a session is registered, any string until then */
+export type SessionField = [keyof RegisteredSession] extends [never] ? string : KnownKeys<Session> & string;
+
+// ============================================================================
+// Session Validation
+// ============================================================================
+
+/** Size limits for the built-in session fields (DoS protection) */
+export interface SessionLimits {
+  /** Max userId length (default: 255) */
+  maxUserIdLength?: number;
+
+  /** Max email length (default: 320) */
+  maxEmailLength?: number;
+
+  /** Max length of a role name (default: 100) */
+  maxRoleLength?: number;
+
+  /** Max number of roles (default: 100) */
+  maxRoles?: number;
+
+  /** Max length of a permission (default: 200) */
+  maxPermissionLength?: number;
+
+  /** Max number of permissions (default: 500) */
+  maxPermissions?: number;
+}
+
+/** A problem found while validating a session */
+export interface SessionIssue {
+  /** Path to the offending field, e.g. ["roles", 3] (empty for the whole session) */
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Custom session validation, run after the built-in checks.
+ * Return true if valid, or false or a list of issues if not.
+ */
+export type SessionValidator = (session: Session) => boolean | SessionIssue[];
+
+/** Result of a Standard Schema validation (https://standardschema.dev) */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | {
+      readonly issues: ReadonlyArray<{
+        readonly message: string;
+        readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+      }>;
+    };
+
+/** Any Standard Schema compatible schema (zod, valibot, arktype...) */
+export interface StandardSchema<Output = unknown> {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+  };
+}
+
+/**
+ * Why a session expired
+ *
+ * - "max-age": older than maxAge since issuedAt
+ * - "idle": unused for longer than idleTimeout since lastSeenAt
+ * - "expires-at": past its expiresAt
+ */
+export type SessionExpiry = "max-age" | "idle" | "expires-at";
+
 /**
  * What we store in AsyncLocalStorage
  */
 export interface SessionContext {
   session: Session | null;
+
+  /** Set when the request carried a session that had expired (session is then null) */
+  expired?: SessionExpiry;
 }
 
 // ============================================================================
 // Route Protection Rules
 // ============================================================================
 
+/** Params captured by [param] and [...rest] segments of a matched pattern */
+export type RouteParams = Record<string, string | undefined>;
+
+/** HTTP methods a protection rule can be scoped to */
+export type HttpMethod = "GET" | "HEAD" | "POST" | "PUT" | "PATCH" | "DELETE" | "OPTIONS";
+
 interface BaseProtectionRule {
-  /** Glob pattern for route matching: "/admin/**", "/dashboard/*", "/settings" */
+  /**
+   * Route pattern: "/admin/**", "/dashboard/*", "/settings".
+   * Supports Astro dynamic segments: "/orgs/[orgId]/settings", "/docs/[...slug]"
+   */
   pattern: string;
 
   /** Where to redirect if access denied (defaults to global loginPath) */
   redirectTo?: string;
+
+  /** Glob patterns the rule does not apply to, even if `pattern` matches */
+  exclude?: string[];
+
+  /** HTTP methods the rule applies to (default: all). A rule covering GET also covers HEAD. */
+  methods?: HttpMethod[];
+
+  /** How to respond when this rule denies access (defaults to global deniedResponse) */
+  deniedResponse?: DeniedResponse;
+
+  /** Where signed-in users who fail this rule go (defaults to global forbiddenPath) */
+  forbiddenPath?: string;
+
+  /** How signed-in users who fail this rule are answered (defaults to global forbiddenResponse) */
+  forbiddenResponse?: ForbiddenResponse;
+  /**
+   * Record denials by this rule without enforcing them (defaults to global reportOnly).
+   * Set to false to enforce this rule while everything else is report-only.
+   */
+  reportOnly?: boolean;
 }
 
-/** Protect by single role */
-export interface RoleProtectionRule extends BaseProtectionRule {
-  role: string;
+/**
+ * Ownership check: the route param must equal a session field,
+ * e.g. `{ param: "id", field: "userId" }` for `/users/[id]/**`
+ */
+export interface OwnershipCheck {
+  /** Route param holding the owner's id */
+  param: string;
+
+  /** Session field to compare it with (default: "userId") */
+  field?: SessionField;
+
+  /** Roles that may access any resource (inherited roles count) */
+  bypassRoles?: Role[];
 }
 
-/** Protect by multiple roles (user must have ONE of these) */
-export interface RolesProtectionRule extends BaseProtectionRule {
-  roles: string[];
+/** Require a single role */
+export interface RoleCondition {
+  role: Role;
 }
 
-/** Protect by single permission */
-export interface PermissionProtectionRule extends BaseProtectionRule {
-  permission: string;
+/** Require ONE of several roles */
+export interface RolesCondition {
+  roles: Role[];
 }
 
-/** Protect by multiple permissions (user must have ALL of these) */
-export interface PermissionsProtectionRule extends BaseProtectionRule {
-  permissions: string[];
+/** Require a single permission */
+export interface PermissionCondition {
+  permission: Permission;
 }
 
-/** Protect with custom function */
-export interface CustomProtectionRule extends BaseProtectionRule {
-  allow: (session: Session | null) => boolean | Promise<boolean>;
+/** Require ALL of several permissions */
+export interface PermissionsCondition {
+  permissions: Permission[];
+}
+
+/** Custom check function */
+export interface CustomCondition {
+  allow: (session: Session | null, params: RouteParams) => boolean | Promise<boolean>;
+}
+
+/** Require the session to own the resource named by a route param */
+export interface OwnerCondition {
+  owner: OwnershipCheck;
+}
+
+/** Check an action against a registered policy (see definePolicy) */
+export interface PolicyCondition {
+  policy: PolicyCheck;
+}
+
+/** Every nested condition must pass (evaluated in order, stops at the first failure) */
+export interface AllCondition {
+  all: AccessCondition[];
+}
+
+/** At least one nested condition must pass (evaluated in order, stops at the first success) */
+export interface AnyCondition {
+  any: AccessCondition[];
 }
 
+/** The nested condition must fail */
+export interface NotCondition {
+  not: AccessCondition;
+}
+
+/**
+ * A single access check. Combinators nest checks:
+ * `{ any: [{ role: "admin" }, { permission: "reports:read" }] }`
+ */
+export type AccessCondition =
+  | RoleCondition
+  | RolesCondition
+  | PermissionCondition
+  | PermissionsCondition
+  | CustomCondition
+  | PolicyCondition
+  | OwnerCondition
+  | AllCondition
+  | AnyCondition
+  | NotCondition;
+
+/** Protect by single role */
+export interface RoleProtectionRule extends BaseProtectionRule, RoleCondition {}
+
+/** Protect by multiple roles (user must have ONE of these) */
+export interface RolesProtectionRule extends BaseProtectionRule, RolesCondition {}
+
+/** Protect by single permission */
+export interface PermissionProtectionRule extends BaseProtectionRule, PermissionCondition {}
+
+/** Protect by multiple permissions (user must have ALL of these) */
+export interface PermissionsProtectionRule extends BaseProtectionRule, PermissionsCondition {}
+
+/** Protect with custom function */
+export interface CustomProtectionRule extends BaseProtectionRule, CustomCondition {}
+
+/** Protect by resource ownership */
+export interface OwnerProtectionRule extends BaseProtectionRule, OwnerCondition {}
+
+/** Protect with a policy */
+export interface PolicyProtectionRule extends BaseProtectionRule, PolicyCondition {}
+
+/** Protect with conditions that must all pass */
+export interface AllProtectionRule extends BaseProtectionRule, AllCondition {}
+
+/** Protect with conditions of which one must pass */
+export interface AnyProtectionRule extends BaseProtectionRule, AnyCondition {}
+
+/** Protect with a condition that must fail */
+export interface NotProtectionRule extends BaseProtectionRule, NotCondition {}
+
 /** Union of all protection rule types */
 export type ProtectionRule =
   | RoleProtectionRule
   | RolesProtectionRule
   | PermissionProtectionRule
   | PermissionsProtectionRule
-  | CustomProtectionRule;
+  | CustomProtectionRule
+  | PolicyProtectionRule
+  | OwnerProtectionRule
+  | AllProtectionRule
+  | AnyProtectionRule
+  | NotProtectionRule;
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+/** Decides whether the session may perform an action on a resource */
+export type PolicyAction<R = unknown> = (session: Session | null, resource: R) => boolean | Promise<boolean>;
+
+/** The actions of a policy, by name */
+export type PolicyActions<R = unknown> = Record<string, PolicyAction<R>>;
+
+/** Rules for one resource type, created by definePolicy */
+export interface Policy<R = unknown> {
+  name: string;
+  actions: PolicyActions<R>;
+}
+
+/** A resource paired with the name of its policy, created by subject() */
+export interface PolicySubject<R = unknown> {
+  policy: string;
+  resource: R;
+}
+
+/** A policy check in a protection rule */
+export interface PolicyCheck {
+  /** Name of the policy */
+  name: string;
+
+  /** Action to check, e.g. "edit" */
+  action: string;
+
+  /** Load the resource the policy receives from the route (default: the route params) */
+  resource?: (params: RouteParams, session: Session | null) => unknown;
+}
+
+/**
+ * How the guard picks rules when several patterns match a path
+ *
+ * - "first-match": the first declared matching rule wins (default)
+ * - "most-specific": the most specific pattern wins, ranked by literal
+ *   segments before `*` before `**`
+ * - "all": every matching rule must pass
+ */
+export type RuleResolution = "first-match" | "most-specific" | "all";
+
+// ============================================================================
+// Access Denial
+// ============================================================================
+
+/**
+ * Why the guard denied a request
+ *
+ * - "no-session": the check requires a signed-in user
+ * - "session-expired": the check requires a signed-in user and the session had expired
+ * - "missing-role": the session lacks the required role(s)
+ * - "missing-permission": the session lacks the required permission(s)
+ * - "custom-check-failed": an `allow` function or the `access.check` hook returned false
+ * - "custom-check-threw": an `allow` function, a policy or the `access.check` hook threw
+ * - "negated-condition": a `not` condition's nested check passed
+ * - "policy-denied": a policy did not allow the action
+ * - "not-owner": the session does not own the resource named by the route
+ * - "default-policy": no rule matched and the default policy refused the request
+ */
+export type DenialReason =
+  | "no-session"
+  | "session-expired"
+  | "missing-role"
+  | "missing-permission"
+  | "custom-check-failed"
+  | "custom-check-threw"
+  | "negated-condition"
+  | "policy-denied"
+  | "not-owner"
+  | "default-policy";
+
+/**
+ * What granted an allowed request
+ *
+ * - "rule": every applicable rule passed
+ * - "public": the path is in the public allowlist
+ * - "default-policy": no rule matched and the default policy let it through
+ * - "report-only": every applicable rule denied it, but only reported the denial
+ */
+export type GrantSource = "rule" | "public" | "default-policy" | "report-only";
+
+/**
+ * A single check that passed (combinators are flattened into the checks that satisfied them)
+ */
+export type SatisfiedCheck =
+  | RoleCondition
+  | RolesCondition
+  | PermissionCondition
+  | PermissionsCondition
+  | CustomCondition
+  | PolicyCondition
+  | OwnerCondition
+  | NotCondition;
+
+/**
+ * An allowed request, passed to the onAllowed hook and stored on context.locals.accessDecision
+ */
+export interface GuardAllowed {
+  allowed: true;
+
+  /** Normalized request pathname */
+  pathname: string;
+
+  /** The rule that granted access (null when granted by the public list, default policy or report-only rules) */
+  rule: ProtectionRule | null;
+
+  /** Pattern of the rule or public entry that granted access (null when granted by the default policy or report-only rules) */
+  pattern: string | null;
+
+  /** Params captured by the rule's pattern */
+  params: RouteParams;
+
+  /**
+   * Checks the session satisfied, across every applicable rule.
+   * Empty when the path needs no checks or the access.check hook decided.
+   */
+  satisfied: SatisfiedCheck[];
+
+  /** The current session (null if anonymous) */
+  session: Session | null;
+
+  /** What granted access */
+  grantedBy: GrantSource;
+}
+
+/**
+ * A denied request, passed to the onDenied hook and custom denial responses
+ */
+export interface GuardDenial {
+  allowed: false;
+
+  /** Normalized request pathname */
+  pathname: string;
+
+  /** The rule that denied access (null when denied by the default policy) */
+  rule: ProtectionRule | null;
+
+  /** Params captured by the rule's pattern */
+  params: RouteParams;
+
+  /** The current session (null if anonymous) */
+  session: Session | null;
+
+  /** Why access was denied */
+  reason: DenialReason;
+
+  /** 401 when anonymous, 403 when signed in but not allowed */
+  status: 401 | 403;
+
+  /** Where a redirect would send the user (the forbidden page for signed-in users, if configured) */
+  redirectTo: string;
+
+  /** True when the denial is only recorded and the request continues */
+  reportOnly: boolean;
+}
+
+/** Outcome of the guard for a request */
+export type GuardDecision = GuardAllowed | GuardDenial;
+
+/** Builds a custom response for a denied request */
+export type DeniedResponseFactory = (context: APIContext, denial: GuardDenial) => Response | Promise<Response>;
+
+/**
+ * How the guard responds to a denied request
+ *
+ * - "redirect": redirect to the login page or the rule's redirectTo (default)
+ * - 401 / 403: JSON error with that status
+ * - "negotiate": JSON error (401 or 403) for API clients, redirect for browser navigation
+ * - a function returning a custom Response
+ */
+export type DeniedResponse = "redirect" | 401 | 403 | "negotiate" | DeniedResponseFactory;
+
+/**
+ * How page navigations by signed-in users who fail a rule are answered
+ *
+ * - "redirect": redirect to forbiddenPath (default when forbiddenPath is set)
+ * - "rewrite": render forbiddenPath in place, keeping the URL
+ * - 403: JSON error with status 403
+ */
+export type ForbiddenResponse = "redirect" | "rewrite" | 403;
+
+/** Body of the JSON error responses sent on denial */
+export interface DeniedBody {
+  error: "unauthorized" | "forbidden";
+  status: 401 | 403;
+  message: string;
+}
+
+/**
+ * What the guard does with a path no rule matches
+ *
+ * - "allow": let everyone through (default)
+ * - "authenticated": require a session
+ * - "deny": redirect everyone to the login page
+ */
+export type DefaultPolicy = "allow" | "authenticated" | "deny";
+
+/**
+ * Roles each role inherits, e.g. { owner: ["admin"], admin: ["editor"] }.
+ * Inheritance is transitive: an owner passes admin and editor checks.
+ */
+export type RoleHierarchy = Record<string, string[]>;
+
+/** What a role grants */
+export interface RoleDefinition {
+  /** Permissions every holder of the role has */
+  permissions?: string[];
+}
+
+/**
+ * Central role definitions, e.g. { admin: { permissions: ["users:manage"] } }.
+ * Sessions then only need to carry their roles.
+ */
+export type RoleDefinitions = Record<string, RoleDefinition>;
+
+/**
+ * How granted permissions are matched against required ones
+ */
+export interface PermissionMatchingOptions {
+  /** Separates the segments of a permission (default: ":") */
+  separator?: string;
+
+  /** Segment matching any one segment, or every remaining segment when last (default: "*") */
+  wildcard?: string;
+
+  /**
+   * Actions that grant other actions, e.g. { write: ["read"] } so "posts:write" satisfies "posts:read".
+   * Applies to the last segment and is transitive.
+   */
+  implies?: Record<string, string[]>;
+}
 
 // ============================================================================
 // Configuration
@@ -87,13 +567,16 @@ export type ProtectionRule =
  */
 export interface AccessHooks {
   /** Extract role from session (default: session.role) */
-  getRole?: (session: Session | null) => string | null;
+  getRole?: (session: Session | null) => Role | null;
+
+  /** Extract every role the session holds (default: getRole's result plus session.roles) */
+  getRoles?: (session: Session | null) => Role[];
 
   /** Extract permissions from session (default: session.permissions ?? []) */
   getPermissions?: (session: Session | null) => string[];
 
   /** Custom access check that overrides all built-in logic */
-  check?: (rule: ProtectionRule, session: Session | null) => boolean | Promise<boolean>;
+  check?: (rule: ProtectionRule, session: Session | null, params: RouteParams) => boolean | Promise<boolean>;
 }
 
 /**
@@ -106,6 +589,101 @@ export interface SessionKitConfig {
   /** Route protection rules */
   protect?: ProtectionRule[];
 
+  /** Glob patterns that are always public; the guard skips them before evaluating rules */
+  public?: string[];
+
+  /**
+   * Policy for paths no rule matches (default: "allow").
+   * Public paths and the login page are always reachable.
+   */
+  defaultPolicy?: DefaultPolicy;
+
+  /**
+   * Extra session validation: a function or a Standard Schema.
+   * Runs after the built-in checks in sessionMiddleware, setSession and updateSession;
+   * a schema's output replaces the session. Asynchronous schemas are awaited by the
+   * middleware; setSession and updateSession throw for them.
+   */
+  validateSession?: SessionValidator | StandardSchema;
+
+  /** Size limits for the built-in session checks */
+  limits?: SessionLimits;
+
+  /** Roles each role inherits; honored by role checks in rules and by hasRole */
+  roleHierarchy?: RoleHierarchy;
+
+  /**
+   * Permissions granted by each role. A session's effective permissions are
+   * those of its roles (including inherited ones) plus its own `permissions`.
+   */
+  roles?: RoleDefinitions;
+
+  /**
+   * Match permissions by segment, with wildcards and implied actions, e.g. a grant
+   * of "posts:*" satisfies "posts:write". Pass true for the defaults (default: exact match).
+   */
+  permissionMatching?: boolean | PermissionMatchingOptions;
+
+  /** How to respond to denied requests (default: "redirect"). Rules can override it. */
+  deniedResponse?: DeniedResponse;
+
+  /**
+   * Where signed-in users who fail a rule go, instead of the login page.
+   * Without it (or forbiddenResponse) they are sent to the login page like anonymous users.
+   */
+  forbiddenPath?: string;
+
+  /** How signed-in users who fail a rule are answered (default: "redirect" to forbiddenPath) */
+  forbiddenResponse?: ForbiddenResponse;
+
+  /**
+   * Evaluate rules without enforcing them: would-be denials go to onDenied
+   * (or console.warn when it is not set) and the request continues (default: false).
+   * Rules can override it.
+   */
+  reportOnly?: boolean;
+
+  /** Called for every request the guard lets through */
+  onAllowed?: (decision: GuardAllowed, context: APIContext) => void | Promise<void>;
+
+  /**
+   * Called for every request the guard denies.
+   * Return a Response to send it instead of the configured denial response
+   * (ignored for report-only denials).
+   */
+  onDenied?: (decision: GuardDenial, context: APIContext) => Response | void | Promise<Response | void>;
+
+  /**
+   * Query parameter the guard adds to its redirects with the page the user
+   * was trying to reach, e.g. "returnTo" → /login?returnTo=%2Fadmin (default: disabled).
+   * Read it back safely with getReturnTo().
+   */
+  returnToParam?: string;
+
+  /**
+   * Query parameter the guard adds to its redirects when the session expired,
+   * e.g. "reason" → /login?reason=session-expired (default: "reason"; false to disable)
+   */
+  expiredParam?: string | false;
+
+  /** Absolute session lifetime in seconds, counted from issuedAt (default: none) */
+  maxAge?: number;
+
+  /** Seconds a session may go unused before it expires, counted from lastSeenAt (default: none) */
+  idleTimeout?: number;
+
+  /** How to resolve multiple matching rules (default: "first-match") */
+  ruleResolution?: RuleResolution;
+
+  /**
+   * Site base path stripped from request paths before matching.
+   * Set automatically from Astro's `base` config by the integration.
+   */
+  base?: string;
+
+  /** Match patterns case-sensitively (default: true) */
+  caseSensitive?: boolean;
+
   /** Custom access hooks */
   access?: AccessHooks;
 
@@ -127,3 +705,16 @@ export interface SessionKitConfig {
    */
   setContextStore?: (context: SessionContext) => void;
 }
+
+// ============================================================================
+// Astro Locals
+// ============================================================================
+
+declare global {
+  namespace App {
+    interface Locals {
+      /** Why the guard let this request through (set by the route guard) */
+      accessDecision?: GuardAllowed;
+    }
+  }
+}
@@ -2,80 +2,229 @@
 // Security Validation Utilities
 // ============================================================================
 
-import type {Session} from "./types";
+import type {Session, SessionIssue, SessionLimits, SessionValidator, StandardSchema, StandardSchemaResult} from "./types";
+
+/** Default size limits for the built-in session fields */
+export const DEFAULT_SESSION_LIMITS: Required<SessionLimits> = {
+    maxUserIdLength: 255,
+    maxEmailLength: 320,
+    maxRoleLength: 100,
+    maxRoles: 100,
+    maxPermissionLength: 200,
+    maxPermissions: 500,
+};
 
 /**
- * Validate that session has the expected structure
+ * Check a list of strings with size limits, reporting issues under `field`
+ */
+function findStringListIssues(
+    value: unknown,
+    field: string,
+    maxItems: number,
+    maxLength: number,
+    issues: SessionIssue[]
+): void {
+    if (!Array.isArray(value)) {
+        issues.push({path: [field], message: "must be an array"});
+        return;
+    }
+    // DoS protection: Limit array size before looking at the items
+    if (value.length > maxItems) {
+        issues.push({path: [field], message: `must have at most ${maxItems} items`});
+        return;
+    }
+    value.forEach((item: unknown, index) => {
+        if (typeof item !== 'string') {
+            issues.push({path: [field, index], message: "must be a string"});
+        } else if (item.length > maxLength) {
+            issues.push({path: [field, index], message: `must be at most ${maxLength} characters`});
+        }
+    });
+}
+
+/**
+ * Find what is wrong with a session's structure
  * Prevents crashes from malformed data and DoS attacks
+ *
+ * @returns The issues found (empty if the structure is valid)
  */
-export function isValidSessionStructure(input: unknown): input is Session {
+export function findSessionIssues(input: unknown, limits: Required<SessionLimits> = DEFAULT_SESSION_LIMITS): SessionIssue[] {
     // Must be an object
     if (!input || typeof input !== 'object') {
-        return false;
+        return [{path: [], message: "must be an object"}];
     }
 
-    const session = input as any;
+    const session = input as Record<string, unknown>;
+    const issues: SessionIssue[] = [];
 
     // Required: userId must be a non-empty string
     if (typeof session.userId !== 'string' || !session.userId.trim()) {
-        return false;
-    }
-
-    // DoS protection: Limit userId length
-    if (session.userId.length > 255) {
-        return false;
+        issues.push({path: ["userId"], message: "must be a non-empty string"});
+    } else if (session.userId.length > limits.maxUserIdLength) {
+        // DoS protection: Limit userId length
+        issues.push({path: ["userId"], message: `must be at most ${limits.maxUserIdLength} characters`});
     }
 
     // Optional fields validation (if present)
     if (session.email !== undefined) {
         if (typeof session.email !== 'string') {
-            return false;
-        }
-        // Reasonable email length limit
-        if (session.email.length > 320) {
-            return false;
+            issues.push({path: ["email"], message: "must be a string"});
+        } else if (session.email.length > limits.maxEmailLength) {
+            issues.push({path: ["email"], message: `must be at most ${limits.maxEmailLength} characters`});
         }
     }
 
     if (session.role !== undefined && session.role !== null) {
         if (typeof session.role !== 'string') {
-            return false;
-        }
-        // Reasonable role length limit
-        if (session.role.length > 100) {
-            return false;
+            issues.push({path: ["role"], message: "must be a string"});
+        } else if (session.role.length > limits.maxRoleLength) {
+            issues.push({path: ["role"], message: `must be at most ${limits.maxRoleLength} characters`});
         }
     }
 
     if (session.roles !== undefined && session.roles !== null) {
-        if (!Array.isArray(session.roles)) {
-            return false;
-        }
-        // DoS protection: Limit array size
-        if (session.roles.length > 100) {
-            return false;
-        }
-        // All items must be strings with reasonable length
-        if (!session.roles.every((r: any) => typeof r === 'string' && r.length <= 100)) {
-            return false;
-        }
+        findStringListIssues(session.roles, "roles", limits.maxRoles, limits.maxRoleLength, issues);
     }
 
     if (session.permissions !== undefined && session.permissions !== null) {
-        if (!Array.isArray(session.permissions)) {
-            return false;
+        findStringListIssues(
+            session.permissions,
+            "permissions",
+            limits.maxPermissions,
+            limits.maxPermissionLength,
+            issues
+        );
+    }
+
+    // Expiry timestamps (ms since epoch)
+    for (const field of ["issuedAt", "lastSeenAt", "expiresAt"]) {
+        const value = session[field];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+            issues.push({path: [field], message: "must be a timestamp in milliseconds"});
         }
-        // DoS protection: Limit array size
-        if (session.permissions.length > 500) {
-            return false;
+    }
+
+    return issues;
+}
+
+/**
+ * Validate that session has the expected structure
+ * Prevents crashes from malformed data and DoS attacks
+ */
+export function isValidSessionStructure(
+    input: unknown,
+    limits: Required<SessionLimits> = DEFAULT_SESSION_LIMITS
+): input is Session {
+    return findSessionIssues(input, limits).length === 0;
+}
+
+/** Outcome of validating a session: the session to use, or what is wrong with it */
+export type SessionCheck =
+    | {session: Session; issues?: undefined}
+    | {session?: undefined; issues: SessionIssue[]};
+
+/**
+ * Convert a Standard Schema result into a session check
+ */
+function fromSchemaResult(result: StandardSchemaResult<unknown>): SessionCheck {
+    if (result.issues) {
+        return {
+            issues: result.issues.map((issue) => ({
+                path: (issue.path ?? []).map((segment) => {
+                    const key = typeof segment === "object" ? segment.key : segment;
+                    return typeof key === "number" ? key : String(key);
+                }),
+                message: issue.message,
+            })),
+        };
+    }
+    return {session: result.value as Session};
+}
+
+/**
+ * Turn an error thrown by the validator or schema into an issue, so the session is ignored
+ */
+function thrownIssue(error: unknown): SessionCheck {
+    return {issues: [{path: [], message: `validateSession threw: ${(error as Error)?.message ?? error}`}]};
+}
+
+/**
+ * Run the built-in structure checks, then the custom validator or schema
+ *
+ * @returns The check, or a promise of it when the schema validates asynchronously
+ */
+export function checkSession(
+    input: unknown,
+    limits: Required<SessionLimits>,
+    validator?: SessionValidator | StandardSchema
+): SessionCheck | Promise<SessionCheck> {
+    const issues = findSessionIssues(input, limits);
+    if (issues.length > 0) {
+        return {issues};
+    }
+
+    const session = input as Session;
+    if (!validator) {
+        return {session};
+    }
+
+    if (typeof validator === "function") {
+        let result: boolean | SessionIssue[];
+        try {
+            result = validator(session);
+        } catch (error) {
+            return thrownIssue(error);
         }
-        // All items must be strings with reasonable length
-        if (!session.permissions.every((p: any) => typeof p === 'string' && p.length <= 200)) {
-            return false;
+        if (Array.isArray(result)) {
+            return result.length === 0 ? {session} : {issues: result};
         }
+        return result ? {session} : {issues: [{path: [], message: "rejected by validateSession"}]};
     }
 
-    return true;
+    let result: ReturnType<StandardSchema["~standard"]["validate"]>;
+    try {
+        result = validator["~standard"].validate(session);
+    } catch (error) {
+        return thrownIssue(error);
+    }
+    return result instanceof Promise ? result.then(fromSchemaResult, thrownIssue) : fromSchemaResult(result);
+}
+
+/**
+ * Like checkSession, for callers that cannot wait
+ *
+ * @throws {Error} If the schema validates asynchronously
+ */
+export function checkSessionSync(
+    input: unknown,
+    limits: Required<SessionLimits>,
+    validator?: SessionValidator | StandardSchema
+): SessionCheck {
+    const result = checkSession(input, limits, validator);
+    if (result instanceof Promise) {
+        // Nobody will wait for it: keep a rejection from going unhandled
+        result.catch(() => undefined);
+        throw new Error(
+            '[SessionKit] validateSession is an asynchronous schema, but setSession and updateSession validate ' +
+            'synchronously. Use a synchronous schema; the session middleware awaits asynchronous ones.'
+        );
+    }
+    return result;
+}
+
+/**
+ * Describe session issues on one line, e.g. "userId: must be a non-empty string; roles[2]: must be a string"
+ */
+export function formatSessionIssues(issues: SessionIssue[]): string {
+    return issues
+        .map(({path, message}) => {
+            const field = path.reduce<string>(
+                (name, segment) => (typeof segment === "number" ? `${name}[${segment}]` : name ? `${name}.${segment}` : segment),
+                ""
+            );
+            return field ? `${field}: ${message}` : message;
+        })
+        .join("; ");
 }
 
 /**
@@ -112,6 +261,40 @@ export function isValidPattern(pattern: string): boolean {
         i = j - 1;
     }
 
+    return hasValidDynamicSegments(pattern);
+}
+
+/**
+ * Validate Astro-style dynamic segments in a pattern:
+ * "[param]" inside a segment, "[...rest]" as a whole segment.
+ * Params may not touch each other or a wildcard, which keeps the
+ * generated regex free of ambiguous (backtracking-prone) sequences.
+ */
+function hasValidDynamicSegments(pattern: string): boolean {
+    const names = new Set<string>();
+
+    for (const segment of pattern.split("/")) {
+        if (!segment.includes("[") && !segment.includes("]")) continue;
+
+        if (segment.includes("*") || segment.includes("][")) return false;
+
+        for (const match of segment.matchAll(/\[([^[\]]*)\]/g)) {
+            const token = match[1] as string;
+            const isRest = token.startsWith("...");
+            const name = isRest ? token.slice(3) : token;
+
+            // Rest params must fill the whole segment
+            if (isRest && segment !== `[${token}]`) return false;
+
+            // Names must be identifiers and unique within the pattern
+            if (!/^[A-Za-z_$][\w$-]*$/.test(name) || names.has(name)) return false;
+            names.add(name);
+        }
+
+        // Unbalanced or nested brackets
+        if (/[[\]]/.test(segment.replace(/\[[^[\]]*\]/g, ""))) return false;
+    }
+
     return true;
 }
 
@@ -129,6 +312,10 @@ export function isValidRedirectPath(path: string): boolean {
     // Reject protocol-relative URLs like "//example.com"
     if (!path.startsWith("/") || path.startsWith("//")) return false;
 
+    // Browsers treat a backslash as "/" and strip tabs/newlines, so "/\evil.com"
+    // or "/<TAB>/evil.com" would become protocol-relative URLs
+    if (/[\\\u0000-\u001f\u007f]/.test(path)) return false;
+
     // Extra hardening: reject anything that looks like a URL scheme
     // (e.g. "http://", "https://", "javascript:", "data:", etc.)
     return !/^[a-zA-Z][a-zA-Z0-9+.-]*:/.test(path);
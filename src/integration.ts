@@ -35,15 +35,21 @@ export default function sessionKit(config: SessionKitConfig = {}): AstroIntegrat
   return {
     name: "astro-sessionkit",
     hooks: {
-      "astro:config:setup": ({ addMiddleware }) => {
+      "astro:config:setup": ({ addMiddleware, config: astroConfig }) => {
+        // Match routes relative to Astro's base path unless configured explicitly
+        const { base } = astroConfig as { base?: string };
+        setConfig({ base, ...config });
+
         // 1. Always add session context middleware first
         addMiddleware({
           entrypoint: "astro-sessionkit/middleware",
           order: "pre",
         });
 
-        // 2. Add route guard if there are protection rules
-        if (config.protect && config.protect.length > 0) {
+        // 2. Add route guard if there are protection rules or a restrictive default policy
+        const hasRules = (config.protect?.length ?? 0) > 0;
+        const restrictsByDefault = config.defaultPolicy !== undefined && config.defaultPolicy !== "allow";
+        if (hasRules || restrictsByDefault) {
           addMiddleware({
             entrypoint: "astro-sessionkit/guard",
             order: "pre",
@@ -3,8 +3,13 @@
 // ============================================================================
 
 import {getContextStore} from "./core/context";
-import {isValidSessionStructure} from "./core/validation";
-import type {Session} from "./core/types";
+import {checkSessionSync, formatSessionIssues, isValidRedirectPath} from "./core/validation";
+import {getConfig} from "./core/config";
+import {touchSession} from "./core/expiry";
+import {checkRule, sessionHasAnyRole, sessionHasPermissions} from "./core/access";
+import {appendQueryParam, appendReturnTo, deniedJsonResponse, isApiRequest} from "./core/denial";
+import {evaluatePolicy} from "./core/policies";
+import type {AccessCondition, GuardAllowed, Permission, PolicySubject, ProtectionRule, Role, Session, SessionIssue} from "./core/types";
 import type {APIContext} from "astro";
 
 /**
@@ -54,49 +59,231 @@ export function isAuthenticated(): boolean {
 }
 
 /**
- * Check if user has a specific role
+ * Check if user has a specific role, directly or inherited through `roleHierarchy`.
+ * Roles come from the `access` hooks, so this agrees with the route guard.
  */
-export function hasRole(role: string): boolean {
+export function hasRole(role: Role): boolean {
     const session = getSession();
     if (!session) return false;
 
-    // Check primary role
-    if (session.role === role) return true;
-
-    // Check additional roles
-    return session.roles?.includes(role) ?? false;
+    return sessionHasAnyRole(session, [role]);
 }
 
 /**
- * Check if user has a specific permission
+ * Check if user has a specific permission, directly or through one of their roles.
+ * Wildcards and implied actions apply when `permissionMatching` is configured.
  */
-export function hasPermission(permission: string): boolean {
+export function hasPermission(permission: Permission): boolean {
     const session = getSession();
     if (!session) return false;
 
-    return session.permissions?.includes(permission) ?? false;
+    return sessionHasPermissions(session, [permission]);
 }
 
 /**
  * Check if user has ALL of the specified permissions
  */
-export function hasAllPermissions(...permissions: string[]): boolean {
+export function hasAllPermissions(...permissions: Permission[]): boolean {
     const session = getSession();
     if (!session) return false;
 
-    const userPermissions = session.permissions ?? [];
-    return permissions.every((p) => userPermissions.includes(p));
+    return sessionHasPermissions(session, permissions, "all");
 }
 
 /**
  * Check if user has ANY of the specified permissions
  */
-export function hasAnyPermission(...permissions: string[]): boolean {
+export function hasAnyPermission(...permissions: Permission[]): boolean {
     const session = getSession();
     if (!session) return false;
 
-    const userPermissions = session.permissions ?? [];
-    return permissions.some((p) => userPermissions.includes(p));
+    return sessionHasPermissions(session, permissions, "any");
+}
+
+// ============================================================================
+// Authorization Guards
+// ============================================================================
+
+/**
+ * Request details needed to redirect (or rewrite) instead of throwing a JSON error.
+ * Both the endpoint context and the `Astro` global in pages provide them.
+ */
+export type RequireContext = Pick<APIContext, "request" | "url" | "params" | "redirect" | "rewrite">;
+
+/**
+ * The response for a failed authorization check.
+ *
+ * Page requests (when a context is passed) are answered like the route guard does:
+ * anonymous users are redirected to the login page, signed-in users get the configured
+ * forbiddenResponse (the forbidden page, a rewrite to it, or a 403). Everything else
+ * gets the guard's JSON error (401 or 403).
+ *
+ * @returns The response, or the page to rewrite to
+ */
+function denialFor(session: Session | null, context?: RequireContext): Response | {rewrite: string} {
+    if (!context || isApiRequest(context.request)) {
+        return deniedJsonResponse(session ? 403 : 401);
+    }
+
+    const {loginPath, forbiddenPath, forbiddenResponse, returnToParam, expiredParam} = getConfig();
+
+    if (!session) {
+        const method = context.request.method.toUpperCase();
+        let target = returnToParam && (method === "GET" || method === "HEAD")
+            ? appendReturnTo(loginPath, returnToParam, context.url.pathname + context.url.search)
+            : loginPath;
+        if (expiredParam && getContextStore()?.expired) {
+            target = appendQueryParam(target, expiredParam, "session-expired");
+        }
+        return context.redirect(target);
+    }
+
+    const forbidden = forbiddenResponse ?? (forbiddenPath ? "redirect" : undefined);
+    if (forbidden === "rewrite") {
+        return {rewrite: forbiddenPath ?? loginPath};
+    }
+    if (forbidden === "redirect") {
+        return context.redirect(forbiddenPath ?? loginPath);
+    }
+    return deniedJsonResponse(403);
+}
+
+/**
+ * Throw the response for a failed authorization check.
+ * Rewriting needs to wait, so these synchronous helpers answer a rewrite with a 403.
+ */
+function throwDenied(session: Session | null, context?: RequireContext): never {
+    const denial = denialFor(session, context);
+    throw denial instanceof Response ? denial : deniedJsonResponse(403);
+}
+
+/**
+ * Get the current session or throw unless the user has the role (inherited roles count)
+ *
+ * @param context - Pass it (or `Astro` in pages) to redirect page requests instead of throwing JSON errors
+ *
+ * @throws {Response} 401 if not authenticated, 403 if the role is missing, or a redirect for pages
+ *
+ * @example
+ * ```ts
+ * // In API endpoint
+ * export const DELETE: APIRoute = async (context) => {
+ *   const session = requireRole('admin');
+ *   // ...
+ * };
+ * ```
+ */
+export function requireRole(role: Role, context?: RequireContext): Session {
+    return requireAnyRole([role], context);
+}
+
+/**
+ * Get the current session or throw unless the user has at least one of the roles
+ *
+ * @throws {Response} 401 if not authenticated, 403 if every role is missing, or a redirect for pages
+ */
+export function requireAnyRole(roles: Role[], context?: RequireContext): Session {
+    const session = getSession();
+
+    if (!session || !sessionHasAnyRole(session, roles)) {
+        throwDenied(session, context);
+    }
+
+    return session;
+}
+
+/**
+ * Get the current session or throw unless the user has the permission
+ *
+ * @throws {Response} 401 if not authenticated, 403 if the permission is missing, or a redirect for pages
+ *
+ * @example
+ * ```ts
+ * export const POST: APIRoute = async (context) => {
+ *   requirePermission('posts:write');
+ *   // ...
+ * };
+ * ```
+ */
+export function requirePermission(permission: Permission, context?: RequireContext): Session {
+    return requireAllPermissions([permission], context);
+}
+
+/**
+ * Get the current session or throw unless the user has ALL of the permissions
+ *
+ * @throws {Response} 401 if not authenticated, 403 if any permission is missing, or a redirect for pages
+ */
+export function requireAllPermissions(permissions: Permission[], context?: RequireContext): Session {
+    const session = getSession();
+
+    if (!session || !sessionHasPermissions(session, permissions)) {
+        throwDenied(session, context);
+    }
+
+    return session;
+}
+
+/**
+ * Evaluate an access condition against the current session, as the route guard would
+ * evaluate a rule, and throw if it denies access. Route params are taken from the context
+ * when passed; the `access.check` hook sees the condition as a rule for the current path.
+ *
+ * Conditions without a role or permission check (e.g. a custom `allow`) may pass for
+ * anonymous users, so the session can be null.
+ *
+ * @throws {Response} 401 if not authenticated, 403 if the condition fails, or a redirect (or rewrite) for pages
+ *
+ * @example
+ * ```astro
+ * ---
+ * await requireRule({ any: [{ role: 'admin' }, { permission: 'orgs:manage' }] }, Astro);
+ * ---
+ * ```
+ */
+export async function requireRule(condition: AccessCondition, context?: RequireContext): Promise<Session | null> {
+    const session = getSession();
+    const rule: ProtectionRule = {...condition, pattern: context?.url.pathname ?? "/"};
+
+    if (await checkRule(rule, session, context?.params ?? {})) {
+        const denial = denialFor(session, context);
+        throw denial instanceof Response ? denial : await context!.rewrite(denial.rewrite);
+    }
+
+    return session;
+}
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+export {definePolicy, subject} from "./core/policies";
+
+/**
+ * Check whether the current user may perform an action on a resource,
+ * according to the policies registered with `definePolicy`
+ *
+ * @param resource - A resource paired with its policy by `subject()`, or a
+ * policy name for checks that need no resource (e.g. "create")
+ *
+ * @throws {Error} If the policy or the action is not defined
+ *
+ * @example
+ * ```ts
+ * if (await can('edit', subject('post', post))) {
+ *   // Show the edit button
+ * }
+ *
+ * if (await can('create', 'post')) {
+ *   // ...
+ * }
+ * ```
+ */
+export async function can(action: string, resource: string | PolicySubject): Promise<boolean> {
+    if (typeof resource === "string") {
+        return evaluatePolicy(resource, action, getSession(), undefined);
+    }
+    return evaluatePolicy(resource.policy, action, getSession(), resource.resource);
 }
 
 // ============================================================================
@@ -119,7 +306,7 @@ export function hasAnyPermission(...permissions: string[]): boolean {
  * }
  * ```
  */
-export function hasRolePermission(role: string, permission: string): boolean {
+export function hasRolePermission(role: Role, permission: Permission): boolean {
     return hasRole(role) && hasPermission(permission);
 }
 
@@ -159,15 +346,24 @@ export function hasRolePermission(role: string, permission: string): boolean {
  * ```
  */
 export function setSession(context: APIContext, session: Session): void {
-    // Validate session structure
-    if (!isValidSessionStructure(session)) {
+    // Validate session structure (and the custom validator)
+    const config = getConfig();
+    const result = checkSessionSync(session, config.sessionLimits, config.validateSession);
+    if (!result.session) {
         throw new Error(
-            '[SessionKit] Invalid session structure. Session must have a valid userId and follow the Session interface.'
+            '[SessionKit] Invalid session structure. Session must have a valid userId and follow the Session interface.' + describeIssues(result.issues)
         );
     }
 
-    // Set in context.locals for SessionKit middleware to read
-    context.session?.set('__session__', session);
+    // Set in context.locals for SessionKit middleware to read (stamped for maxAge/idleTimeout)
+    context.session?.set('__session__', touchSession(result.session, config));
+}
+
+/**
+ * Field-level details for session errors, in development only
+ */
+function describeIssues(issues: SessionIssue[]): string {
+    return process.env.NODE_ENV !== 'production' ? ` Issues: ${formatSessionIssues(issues)}` : '';
 }
 
 /**
@@ -235,11 +431,70 @@ export function updateSession(context: APIContext, updates: Partial<Session>): v
     const updatedSession = {...currentSession, ...updates};
 
     // Validate merged session
-    if (!isValidSessionStructure(updatedSession)) {
+    const {sessionLimits, validateSession} = getConfig();
+    const result = checkSessionSync(updatedSession, sessionLimits, validateSession);
+    if (!result.session) {
         throw new Error(
-            '[SessionKit] Invalid session structure after update. Ensure all fields are valid.'
+            '[SessionKit] Invalid session structure after update. Ensure all fields are valid.' + describeIssues(result.issues)
         );
     }
 
-    context.session?.set('__session__', updatedSession);
-}
\ No newline at end of file
+    context.session?.set('__session__', result.session);
+}
+
+// ============================================================================
+// Redirects
+// ============================================================================
+
+/**
+ * Read the page the guard sent the user away from, for redirecting back after login
+ *
+ * Reads the query parameter configured as `returnToParam` (default: "returnTo")
+ * and only returns it if it is a safe site-relative path, so it cannot be
+ * used as an open redirect.
+ *
+ * @param context - Astro API context
+ * @param fallback - Path to use when the parameter is missing or unsafe (default: "/")
+ *
+ * @example
+ * ```ts
+ * // In login endpoint after verifying credentials
+ * setSession(context, { userId: user.id });
+ * return context.redirect(getReturnTo(context, '/dashboard'));
+ * ```
+ */
+export function getReturnTo(context: APIContext, fallback = "/"): string {
+    const param = getConfig().returnToParam ?? "returnTo";
+    const returnTo = context.url.searchParams.get(param);
+
+    if (returnTo !== null && isValidRedirectPath(returnTo)) {
+        return returnTo;
+    }
+
+    return fallback;
+}
+
+// ============================================================================
+// Access Decisions
+// ============================================================================
+
+/**
+ * Get why the route guard let the current request through
+ *
+ * Returns null when the guard is not installed or did not evaluate the request
+ * (no rules configured).
+ *
+ * @param context - Astro API context, or the `Astro` global in components
+ *
+ * @example
+ * ```astro
+ * ---
+ * const decision = getAccessDecision(Astro);
+ * const isOrgAdmin = decision?.satisfied.some((check) => 'role' in check && check.role === 'admin');
+ * ---
+ * <OrgLayout orgId={decision?.params.orgId} showSettings={isOrgAdmin} />
+ * ```
+ */
+export function getAccessDecision(context: Pick<APIContext, "locals">): GuardAllowed | null {
+    return context.locals.accessDecision ?? null;
+}
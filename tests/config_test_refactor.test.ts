@@ -49,6 +49,91 @@ describe("config", () => {
       ).toThrow(/Invalid redirectTo/);
     });
 
+    it("throws error for unknown ruleResolution", () => {
+      expect(() =>
+        setConfig({ ruleResolution: "longest" as any })
+      ).toThrow(/Invalid ruleResolution/);
+    });
+
+    it("throws error for invalid public pattern", () => {
+      expect(() => setConfig({ public: ["health"] })).toThrow(/Invalid public pattern/);
+    });
+
+    it("throws error for invalid exclude pattern", () => {
+      expect(() =>
+        setConfig({
+          protect: [{ pattern: "/app/**", role: "admin", exclude: ["/app/**abc"] }],
+        })
+      ).toThrow(/Invalid exclude pattern/);
+    });
+
+    it("throws error for unknown or empty methods", () => {
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/api/**", role: "admin", methods: ["POTS" as any] }] })
+      ).toThrow(/Invalid methods/);
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/api/**", role: "admin", methods: [] }] })
+      ).toThrow(/Invalid methods/);
+    });
+
+    it("throws error for invalid base", () => {
+      expect(() => setConfig({ base: "/docs?x=1" })).toThrow(/Invalid base/);
+    });
+
+    it("normalizes the base path", () => {
+      setConfig({ base: "docs/" });
+      expect(getConfig().base).toBe("/docs");
+    });
+
+    it("throws error for malformed combinator trees", () => {
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/a", any: [] }] })
+      ).toThrow(/Invalid condition in rule "\/a" at rule\.any/);
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/a", all: [{ role: "admin", permission: "x" } as any] }] })
+      ).toThrow(/rule\.all\[0\]: must have exactly one of/);
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/a", not: { roles: "admin" } as any }] })
+      ).toThrow(/rule\.not\.roles: must be an array of strings/);
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/a", role: "admin", any: [{ role: "x" }] } as any] })
+      ).toThrow(/Invalid condition/);
+    });
+
+    it("rejects combinator trees nested too deeply", () => {
+      let condition: any = { role: "admin" };
+      for (let i = 0; i < 40; i++) condition = { not: condition };
+      expect(() => setConfig({ protect: [{ pattern: "/a", ...condition }] })).toThrow(/nested more than/);
+    });
+
+    it("throws error for unknown defaultPolicy", () => {
+      expect(() => setConfig({ defaultPolicy: "block" as any })).toThrow(/Invalid defaultPolicy/);
+    });
+
+    it("throws error for invalid deniedResponse", () => {
+      expect(() => setConfig({ deniedResponse: 500 as any })).toThrow(/Invalid deniedResponse/);
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/api/**", role: "admin", deniedResponse: "json" as any }] })
+      ).toThrow(/Invalid deniedResponse in rule/);
+    });
+
+    it("throws error for invalid returnToParam", () => {
+      expect(() => setConfig({ returnToParam: "return to" })).toThrow(/Invalid returnToParam/);
+      expect(() => setConfig({ returnToParam: "" })).toThrow(/Invalid returnToParam/);
+    });
+
+    it("throws error for invalid forbidden settings", () => {
+      expect(() => setConfig({ forbiddenPath: "forbidden" })).toThrow(/Invalid forbiddenPath/);
+      expect(() => setConfig({ forbiddenResponse: 401 as any })).toThrow(/Invalid forbiddenResponse/);
+      expect(() => setConfig({ forbiddenResponse: "rewrite" })).toThrow(/requires a forbiddenPath/);
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/a", role: "admin", forbiddenResponse: "redirect" }] })
+      ).toThrow(/requires a forbiddenPath/);
+      expect(() =>
+        setConfig({ forbiddenResponse: 403, protect: [{ pattern: "/a", role: "admin", forbiddenPath: "/x" }] })
+      ).not.toThrow();
+    });
+
     it("accepts valid configuration", () => {
       expect(() =>
         setConfig({
@@ -88,6 +173,7 @@ describe("config", () => {
     
     expect(cfg.loginPath).toBe("/login");
     expect(cfg.protect).toEqual([]);
+    expect(cfg.ruleResolution).toBe("first-match");
   });
 
   it("applies custom access hooks", () => {
@@ -139,4 +225,155 @@ describe("config", () => {
     expect(cfg.protect[1]).toMatchObject({ pattern: "/dashboard", roles: ["user", "admin"] });
     expect(cfg.protect[2]).toMatchObject({ pattern: "/settings", permission: "settings:write" });
   });
+
+  describe("redirect loops", () => {
+    it("rejects a loginPath denied to signed-out users", () => {
+      expect(() => setConfig({ protect: [{ pattern: "/**", role: "user" }] })).toThrow(
+        /Redirect loop: loginPath "\/login" is denied to signed-out users by rule "\/\*\*"/
+      );
+    });
+
+    it("rejects a loginPath behind a negated role check", () => {
+      expect(() => setConfig({ protect: [{ pattern: "/**", not: { role: "banned" } }] })).toThrow(/Redirect loop: loginPath/);
+    });
+
+    it("rejects a rule redirectTo denied to signed-out users", () => {
+      expect(() =>
+        setConfig({
+          protect: [
+            { pattern: "/admin/**", role: "admin", redirectTo: "/account/signin" },
+            { pattern: "/account/**", permission: "account:read" },
+          ],
+        })
+      ).toThrow(/redirectTo of rule "\/admin\/\*\*" "\/account\/signin"/);
+    });
+
+    it("rejects a redirectTo denied by the default policy", () => {
+      expect(() =>
+        setConfig({ defaultPolicy: "deny", protect: [{ pattern: "/admin/**", role: "admin", redirectTo: "/signin" }] })
+      ).toThrow(/defaultPolicy "deny"/);
+    });
+
+    it("accepts targets that stay reachable", () => {
+      expect(() => setConfig({ protect: [{ pattern: "/**", role: "user", exclude: ["/login"] }] })).not.toThrow();
+      expect(() => setConfig({ public: ["/login"], protect: [{ pattern: "/**", role: "user" }] })).not.toThrow();
+      expect(() => setConfig({ defaultPolicy: "deny" })).not.toThrow();
+      expect(() => setConfig({ protect: [{ pattern: "/**", not: { allow: () => false } }] })).not.toThrow();
+      expect(() => setConfig({ protect: [{ pattern: "/**", role: "user", reportOnly: true }] })).not.toThrow();
+      expect(() => setConfig({ protect: [{ pattern: "/**", role: "user", methods: ["POST"] }] })).not.toThrow();
+    });
+
+    it("cannot judge custom checks", () => {
+      expect(() => setConfig({ protect: [{ pattern: "/**", allow: () => false }] })).not.toThrow();
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/**", role: "user" }], access: { check: () => true } })
+      ).not.toThrow();
+    });
+  });
+
+  describe("roleHierarchy", () => {
+    it("rejects malformed hierarchies", () => {
+      expect(() => setConfig({ roleHierarchy: ["admin"] as any })).toThrow(/Invalid roleHierarchy/);
+      expect(() => setConfig({ roleHierarchy: { admin: "editor" } as any })).toThrow(/Invalid roleHierarchy entry "admin"/);
+    });
+
+    it("rejects cycles", () => {
+      expect(() => setConfig({ roleHierarchy: { admin: ["editor"], editor: ["admin"] } })).toThrow(
+        "[SessionKit] Cycle in roleHierarchy: admin → editor → admin"
+      );
+    });
+  });
+
+  describe("roles", () => {
+    it("rejects malformed role definitions", () => {
+      expect(() => setConfig({ roles: [] as any })).toThrow(/Invalid roles/);
+      expect(() => setConfig({ roles: { admin: "all" } as any })).toThrow(/Invalid definition for role "admin"/);
+      expect(() => setConfig({ roles: { admin: { permissions: "all" } } as any })).toThrow(
+        /Invalid permissions for role "admin"/
+      );
+    });
+  });
+
+  describe("permissionMatching", () => {
+    it("uses exact matching unless enabled", () => {
+      setConfig({});
+      expect(getConfig().permissionMatcher(["posts:*"], "posts:read")).toBe(false);
+
+      setConfig({ permissionMatching: true });
+      expect(getConfig().permissionMatcher(["posts:*"], "posts:read")).toBe(true);
+    });
+
+    it("rejects invalid options", () => {
+      expect(() => setConfig({ permissionMatching: { separator: "" } })).toThrow(/permissionMatching.separator/);
+      expect(() => setConfig({ permissionMatching: { wildcard: ":*" } })).toThrow(/permissionMatching.wildcard/);
+      expect(() => setConfig({ permissionMatching: { implies: { write: "read" } as any } })).toThrow(
+        /permissionMatching.implies/
+      );
+    });
+  });
+
+  describe("policy rules", () => {
+    it("validates policy checks", () => {
+      expect(() => setConfig({ protect: [{ pattern: "/posts/**", policy: { name: "post" } as any }] })).toThrow(
+        /rule.policy: must be an object with a name and an action/
+      );
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/posts/**", policy: { name: "post", action: "view", resource: 1 } as any }] })
+      ).toThrow(/rule.policy.resource: must be a function/);
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/posts/**", any: [{ policy: { name: "post", action: "view" } }, { role: "admin" }] }] })
+      ).not.toThrow();
+    });
+  });
+
+  describe("ownership rules", () => {
+    it("validates owner checks", () => {
+      expect(() => setConfig({ protect: [{ pattern: "/users/[id]/**", owner: {} as any }] })).toThrow(
+        /rule.owner: must be an object with a param/
+      );
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/users/[id]/**", owner: { param: "id", bypassRoles: "admin" as any } }] })
+      ).toThrow(/rule.owner.bypassRoles/);
+      expect(() => setConfig({ protect: [{ pattern: "/users/[id]/**", owner: { param: "userId" } }] })).toThrow(
+        /the pattern has no "\[userId\]" param/
+      );
+      expect(() =>
+        setConfig({ protect: [{ pattern: "/orgs/[orgId]/**", owner: { param: "orgId", field: "orgId" } }] })
+      ).not.toThrow();
+    });
+  });
+
+  describe("session validation", () => {
+    it("merges limits over the defaults", () => {
+      setConfig({ limits: { maxRoles: 5 } });
+      expect(getConfig().sessionLimits.maxRoles).toBe(5);
+      expect(getConfig().sessionLimits.maxPermissions).toBe(500);
+    });
+
+    it("rejects invalid limits", () => {
+      expect(() => setConfig({ limits: { maxRoles: 0 } })).toThrow(/limits.maxRoles: must be a positive integer/);
+      expect(() => setConfig({ limits: { maxRoles: 1.5 } })).toThrow(/limits.maxRoles/);
+      expect(() => setConfig({ limits: { maxFoo: 1 } as any })).toThrow(/Unknown limit "maxFoo"/);
+    });
+
+    it("accepts a function or a Standard Schema as validateSession", () => {
+      const schema = { "~standard": { version: 1 as const, vendor: "test", validate: (value: unknown) => ({ value }) } };
+      expect(() => setConfig({ validateSession: () => true })).not.toThrow();
+      expect(() => setConfig({ validateSession: schema })).not.toThrow();
+      expect(() => setConfig({ validateSession: {} as any })).toThrow(/Invalid validateSession/);
+    });
+  });
+
+  describe("session expiry", () => {
+    it("validates lifetimes and the expired parameter", () => {
+      setConfig({ maxAge: 3600, idleTimeout: 900, expiredParam: false });
+      expect(getConfig()).toMatchObject({ maxAge: 3600, idleTimeout: 900, expiredParam: null });
+
+      expect(() => setConfig({ maxAge: 0 })).toThrow(/Invalid maxAge/);
+      expect(() => setConfig({ idleTimeout: Infinity })).toThrow(/Invalid idleTimeout/);
+      expect(() => setConfig({ expiredParam: "a b" })).toThrow(/Invalid expiredParam/);
+      setConfig({});
+      expect(getConfig().expiredParam).toBe("reason");
+    });
+  });
 });
@@ -0,0 +1,94 @@
+// ============================================================================
+// Denial Response Tests
+// ============================================================================
+
+import {describe, it, expect, vi} from "vitest";
+import {appendReturnTo, createDeniedResponse, deniedBody, isApiRequest} from "../src/core/denial";
+import type {GuardDenial} from "../src/core/types";
+import {mockContext} from "./test-utils";
+
+const denial: GuardDenial = {
+    allowed: false,
+    pathname: "/api/posts",
+    rule: null,
+    params: {},
+    session: null,
+    reason: "no-session",
+    status: 401,
+    redirectTo: "/login",
+    reportOnly: false,
+};
+
+describe("denial responses", () => {
+    describe("isApiRequest", () => {
+        it("detects XMLHttpRequest clients", () => {
+            const request = new Request("http://localhost/api", {headers: {"X-Requested-With": "XMLHttpRequest"}});
+            expect(isApiRequest(request)).toBe(true);
+        });
+
+        it("detects clients accepting JSON but not HTML", () => {
+            expect(isApiRequest(new Request("http://localhost/api", {headers: {accept: "application/json"}}))).toBe(true);
+            expect(isApiRequest(new Request("http://localhost/", {headers: {accept: "text/html,application/json"}}))).toBe(false);
+            expect(isApiRequest(new Request("http://localhost/"))).toBe(false);
+        });
+    });
+
+    describe("createDeniedResponse", () => {
+        it("redirects by default", async () => {
+            const response = await createDeniedResponse(mockContext() as any, "redirect", denial);
+            expect(response.status).toBe(302);
+            expect(response.headers.get("Location")).toBe("/login");
+        });
+
+        it("returns a JSON error for status strategies", async () => {
+            const response = await createDeniedResponse(mockContext() as any, 403, denial);
+            expect(response.status).toBe(403);
+            expect(response.headers.get("Content-Type")).toBe("application/json");
+            expect(await response.json()).toEqual({error: "forbidden", status: 403, message: "Access denied"});
+        });
+
+        it("negotiates between JSON and redirect", async () => {
+            const api = mockContext({headers: {accept: "application/json"}});
+            const page = mockContext();
+
+            const apiResponse = await createDeniedResponse(api as any, "negotiate", denial);
+            expect(apiResponse.status).toBe(401);
+            expect(await apiResponse.json()).toEqual(deniedBody(401));
+
+            const pageResponse = await createDeniedResponse(page as any, "negotiate", denial);
+            expect(pageResponse.status).toBe(302);
+        });
+
+        it("uses a custom response factory", async () => {
+            const factory = vi.fn(() => new Response("nope", {status: 418}));
+            const ctx = mockContext();
+
+            const response = await createDeniedResponse(ctx as any, factory, denial);
+
+            expect(response.status).toBe(418);
+            expect(factory).toHaveBeenCalledWith(ctx, denial);
+        });
+
+        it("falls back to a redirect when the factory throws", async () => {
+            const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+            const factory = () => {
+                throw new Error("boom");
+            };
+
+            const response = await createDeniedResponse(mockContext() as any, factory, denial);
+
+            expect(response.status).toBe(302);
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe("appendReturnTo", () => {
+        it("adds the destination as an encoded query parameter", () => {
+            expect(appendReturnTo("/login", "returnTo", "/admin?tab=2")).toBe("/login?returnTo=%2Fadmin%3Ftab%3D2");
+        });
+
+        it("keeps existing query parameters", () => {
+            expect(appendReturnTo("/login?lang=en", "next", "/admin")).toBe("/login?lang=en&next=%2Fadmin");
+        });
+    });
+});
@@ -0,0 +1,73 @@
+// ============================================================================
+// Session Expiry Tests
+// ============================================================================
+
+import {describe, it, expect} from "vitest";
+import {findSessionExpiry, touchSession, withTimestamps} from "../src/core/expiry";
+import {mockSession} from "./test-utils";
+
+const NOW = 1_700_000_000_000;
+const none = {maxAge: null, idleTimeout: null};
+
+describe("findSessionExpiry", () => {
+    it("never expires sessions without timestamps or lifetimes", () => {
+        expect(findSessionExpiry(mockSession(), {maxAge: 60, idleTimeout: 60}, NOW)).toBeNull();
+        expect(findSessionExpiry(mockSession({issuedAt: 0, lastSeenAt: 0}), none, NOW)).toBeNull();
+    });
+
+    it("honors expiresAt regardless of the configured lifetimes", () => {
+        expect(findSessionExpiry(mockSession({expiresAt: NOW}), none, NOW)).toBe("expires-at");
+        expect(findSessionExpiry(mockSession({expiresAt: NOW + 1}), none, NOW)).toBeNull();
+    });
+
+    it("expires sessions older than maxAge", () => {
+        const options = {maxAge: 60, idleTimeout: null};
+        expect(findSessionExpiry(mockSession({issuedAt: NOW - 60_000}), options, NOW)).toBe("max-age");
+        expect(findSessionExpiry(mockSession({issuedAt: NOW - 59_999}), options, NOW)).toBeNull();
+    });
+
+    it("expires sessions idle for longer than idleTimeout", () => {
+        const options = {maxAge: 3600, idleTimeout: 60};
+        const session = mockSession({issuedAt: NOW - 120_000, lastSeenAt: NOW - 61_000});
+        expect(findSessionExpiry(session, options, NOW)).toBe("idle");
+        expect(findSessionExpiry({...session, lastSeenAt: NOW - 1000}, options, NOW)).toBeNull();
+    });
+});
+
+describe("touchSession", () => {
+    it("returns the same session when no lifetime is configured", () => {
+        const session = mockSession();
+        expect(touchSession(session, none, NOW)).toBe(session);
+    });
+
+    it("stamps issuedAt once for maxAge", () => {
+        const stamped = touchSession(mockSession(), {maxAge: 60, idleTimeout: null}, NOW);
+        expect(stamped.issuedAt).toBe(NOW);
+        expect(stamped.lastSeenAt).toBeUndefined();
+        expect(touchSession(stamped, {maxAge: 60, idleTimeout: null}, NOW + 1000)).toBe(stamped);
+    });
+
+    it("refreshes lastSeenAt for idleTimeout", () => {
+        const session = mockSession({issuedAt: NOW - 5000, lastSeenAt: NOW - 5000});
+        const touched = touchSession(session, {maxAge: 60, idleTimeout: 30}, NOW);
+        expect(touched).toEqual({...session, lastSeenAt: NOW});
+    });
+
+    it("refreshes lastSeenAt at most once per tenth of idleTimeout", () => {
+        const options = {maxAge: null, idleTimeout: 30};
+        const recent = mockSession({lastSeenAt: NOW - 2999});
+        expect(touchSession(recent, options, NOW)).toBe(recent);
+        expect(touchSession(mockSession({lastSeenAt: NOW - 3000}), options, NOW).lastSeenAt).toBe(NOW);
+        expect(touchSession(mockSession(), options, NOW).lastSeenAt).toBe(NOW);
+    });
+});
+
+describe("withTimestamps", () => {
+    it("restores the stored timestamps on a validated session", () => {
+        const stored = mockSession({issuedAt: NOW - 1000, expiresAt: NOW + 1000});
+        expect(withTimestamps({userId: "u"}, stored)).toEqual({userId: "u", issuedAt: NOW - 1000, expiresAt: NOW + 1000});
+
+        const plain = {userId: "u"};
+        expect(withTimestamps(plain, mockSession())).toBe(plain);
+    });
+});
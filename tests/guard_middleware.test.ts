@@ -2,10 +2,12 @@
 // Guard Middleware Tests
 // ============================================================================
 
-import {describe, it, expect, beforeEach} from "vitest";
+import {describe, it, expect, beforeEach, vi} from "vitest";
 import {createGuardMiddleware} from "../src/core/guardMiddleware";
 import {runWithContext} from "../src/core/context";
 import {setConfig} from "../src/core/config";
+import {clearPolicies, definePolicy} from "../src/core/policies";
+import type {ProtectionRule} from "../src/core/types";
 import {mockContext, mockSession, mockNext} from "./test-utils";
 
 describe("guardMiddleware", () => {
@@ -398,4 +400,1284 @@ describe("guardMiddleware", () => {
             expect(next).toHaveBeenCalled();
         });
     });
-});
\ No newline at end of file
+
+    describe("rule resolution", () => {
+        const protect = [
+            {pattern: "/admin/**", role: "admin"},
+            {pattern: "/admin/billing/**", permission: "billing:manage", redirectTo: "/billing-denied"},
+        ];
+
+        it("lets the first matching rule win by default", async () => {
+            setConfig({protect});
+
+            const session = mockSession({role: "admin"});
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/admin/billing/invoices"});
+            const next = mockNext();
+
+            await runWithContext({session}, async () => {
+                await guard(ctx as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalled();
+        });
+
+        it("applies the most specific rule in most-specific mode", async () => {
+            setConfig({protect, ruleResolution: "most-specific"});
+
+            const session = mockSession({role: "admin"});
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/admin/billing/invoices"});
+            const next = mockNext();
+
+            await runWithContext({session}, async () => {
+                const response = await guard(ctx as any, next as any) as Response;
+                expect(response.headers.get("Location")).toBe("/billing-denied");
+            });
+
+            expect(next).not.toHaveBeenCalled();
+        });
+
+        it("requires every matching rule to pass in all mode", async () => {
+            setConfig({protect, ruleResolution: "all"});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "admin"})}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin/billing"}) as any, next as any) as Response;
+                expect(response.headers.get("Location")).toBe("/billing-denied");
+            });
+            expect(next).not.toHaveBeenCalled();
+
+            const session = mockSession({role: "admin", permissions: ["billing:manage"]});
+            await runWithContext({session}, async () => {
+                await guard(mockContext({url: "http://localhost/admin/billing"}) as any, next as any);
+            });
+            expect(next).toHaveBeenCalled();
+        });
+    });
+
+    describe("public paths and exclusions", () => {
+        it("skips rules for paths in the public allowlist", async () => {
+            setConfig({
+                public: ["/app/public/**", "/app/health"],
+                protect: [{pattern: "/app/**", role: "admin"}],
+            });
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                await guard(mockContext({url: "http://localhost/app/public/about"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/app/health"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalledTimes(2);
+        });
+
+        it("still protects paths outside the allowlist", async () => {
+            setConfig({
+                public: ["/app/health"],
+                protect: [{pattern: "/app/**", role: "admin"}],
+            });
+
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/app/health/details"});
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(ctx as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).not.toHaveBeenCalled();
+        });
+
+        it("does not apply a rule to its excluded patterns", async () => {
+            setConfig({
+                protect: [
+                    {pattern: "/app/**", role: "admin", exclude: ["/app/public/**"]},
+                    {pattern: "/app/public/**", role: "user"},
+                ],
+            });
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "user"})}, async () => {
+                await guard(mockContext({url: "http://localhost/app/public/docs"}) as any, next as any);
+            });
+            expect(next).toHaveBeenCalled();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/app/public/docs"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+            expect(next).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("method-scoped rules", () => {
+        const protect: ProtectionRule[] = [
+            {pattern: "/api/posts/**", methods: ["POST", "PUT", "DELETE"], permission: "posts:write"},
+            {pattern: "/api/posts/**", methods: ["GET"], allow: () => true},
+        ];
+
+        it("allows methods the write rule does not cover", async () => {
+            setConfig({protect});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                await guard(mockContext({url: "http://localhost/api/posts/1"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/api/posts/1", method: "HEAD"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalledTimes(2);
+        });
+
+        it("enforces the rule scoped to the request method", async () => {
+            setConfig({protect});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession()}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/api/posts/1", method: "DELETE"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+            expect(next).not.toHaveBeenCalled();
+
+            await runWithContext({session: mockSession({permissions: ["posts:write"]})}, async () => {
+                await guard(mockContext({url: "http://localhost/api/posts/1", method: "POST"}) as any, next as any);
+            });
+            expect(next).toHaveBeenCalled();
+        });
+
+        it("prefers a method-scoped rule over an unscoped one in most-specific mode", async () => {
+            setConfig({
+                ruleResolution: "most-specific",
+                protect: [
+                    {pattern: "/api/posts/**", allow: () => true},
+                    {pattern: "/api/posts/**", methods: ["POST"], permission: "posts:write"},
+                ],
+            });
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession()}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/api/posts", method: "POST"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("dynamic segments", () => {
+        it("passes captured params to custom allow functions", async () => {
+            let received: unknown;
+            setConfig({
+                protect: [
+                    {
+                        pattern: "/orgs/[orgId]/**",
+                        allow: (session, params) => {
+                            received = params;
+                            return session?.orgId === params.orgId;
+                        },
+                    },
+                ],
+            });
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({orgId: "acme"})}, async () => {
+                await guard(mockContext({url: "http://localhost/orgs/acme/settings"}) as any, next as any);
+                const response = await guard(mockContext({url: "http://localhost/orgs/globex/settings"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(received).toEqual({orgId: "globex"});
+            expect(next).toHaveBeenCalledTimes(1);
+        });
+
+        it("passes captured params to the custom check hook", async () => {
+            setConfig({
+                protect: [{pattern: "/docs/[...slug]", role: "admin"}],
+                access: {
+                    check: (_, __, params) => params.slug !== "internal",
+                },
+            });
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                await guard(mockContext({url: "http://localhost/docs/guide"}) as any, next as any);
+                const response = await guard(mockContext({url: "http://localhost/docs/internal"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("path normalization", () => {
+        it("protects every spelling of a protected path", async () => {
+            setConfig({protect: [{pattern: "/admin/**", role: "admin"}, {pattern: "/settings", role: "admin"}]});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+            const urls = [
+                "http://localhost/admin/",
+                "http://localhost/%61dmin",
+                "http://localhost//admin//users",
+                "http://localhost/public/../admin",
+                "http://localhost/settings/",
+            ];
+
+            await runWithContext({session: null}, async () => {
+                for (const url of urls) {
+                    const response = await guard(mockContext({url}) as any, next as any) as Response;
+                    expect(response.status).toBe(302);
+                }
+            });
+
+            expect(next).not.toHaveBeenCalled();
+        });
+
+        it("matches case-insensitively when configured", async () => {
+            setConfig({caseSensitive: false, protect: [{pattern: "/admin/**", role: "admin"}]});
+
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/ADMIN/users"});
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(ctx as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).not.toHaveBeenCalled();
+        });
+
+        it("matches patterns relative to the base path", async () => {
+            setConfig({base: "/docs/", protect: [{pattern: "/admin/**", role: "admin"}]});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/docs/admin"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).not.toHaveBeenCalled();
+        });
+
+        it("rejects paths with malformed encoding", async () => {
+            setConfig({protect: [{pattern: "/admin/**", role: "admin"}]});
+
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/admin%E0%A4%A"});
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(ctx as any, next as any) as Response;
+                expect(response.status).toBe(400);
+            });
+
+            expect(next).not.toHaveBeenCalled();
+        });
+
+        it("checks encoded separators as part of their segment, like Astro routes them", async () => {
+            setConfig({protect: [{pattern: "/admin/**", role: "admin"}]});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                const denied = await guard(mockContext({url: "http://localhost/admin/x%2F..%2F..%2Fpublic"}) as any, next as any) as Response;
+                expect(denied.headers.get("Location")).toBe("/login");
+                expect(next).not.toHaveBeenCalled();
+
+                // Unprotected pages stay reachable
+                await guard(mockContext({url: "http://localhost/blog/a%2Fb"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/public/..%2Fadmin"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("rule combinators", () => {
+        async function run(rule: ProtectionRule, session: ReturnType<typeof mockSession> | null) {
+            setConfig({protect: [rule]});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session}, async () => {
+                await guard(mockContext({url: "http://localhost/reports"}) as any, next as any);
+            });
+
+            return next.mock.calls.length > 0;
+        }
+
+        it("allows when any nested condition passes", async () => {
+            const rule: ProtectionRule = {
+                pattern: "/reports",
+                any: [{role: "admin"}, {permission: "reports:read"}],
+            };
+
+            expect(await run(rule, mockSession({role: "admin"}))).toBe(true);
+            expect(await run(rule, mockSession({permissions: ["reports:read"]}))).toBe(true);
+            expect(await run(rule, mockSession())).toBe(false);
+            expect(await run(rule, null)).toBe(false);
+        });
+
+        it("requires all nested conditions and supports not", async () => {
+            const rule: ProtectionRule = {
+                pattern: "/reports",
+                all: [{role: "editor"}, {not: {allow: (session) => session?.suspended === true}}],
+            };
+
+            expect(await run(rule, mockSession({role: "editor"}))).toBe(true);
+            expect(await run(rule, mockSession({role: "editor", suspended: true}))).toBe(false);
+            expect(await run(rule, mockSession({role: "viewer"}))).toBe(false);
+        });
+
+        it("still requires a session for negated role checks", async () => {
+            const rule: ProtectionRule = {pattern: "/reports", not: {role: "suspended"}};
+
+            expect(await run(rule, mockSession({role: "user"}))).toBe(true);
+            expect(await run(rule, mockSession({role: "suspended"}))).toBe(false);
+            expect(await run(rule, null)).toBe(false);
+
+            // Negated custom checks can still allow signed-out users
+            expect(await run({pattern: "/reports", not: {allow: (session) => session === null}}, null)).toBe(false);
+            expect(await run({pattern: "/reports", not: {allow: () => false}}, null)).toBe(true);
+        });
+
+        it("short-circuits evaluation", async () => {
+            const later = vi.fn(() => true);
+
+            await run({pattern: "/reports", any: [{role: "user"}, {allow: later}]}, mockSession({role: "user"}));
+            await run({pattern: "/reports", all: [{role: "admin"}, {allow: later}]}, mockSession({role: "user"}));
+
+            expect(later).not.toHaveBeenCalled();
+        });
+
+        it("denies when a negated custom check throws", async () => {
+            const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+            const rule: ProtectionRule = {
+                pattern: "/reports",
+                not: {
+                    allow: () => {
+                        throw new Error("boom");
+                    },
+                },
+            };
+
+            expect(await run(rule, mockSession())).toBe(false);
+            consoleSpy.mockRestore();
+        });
+    });
+
+    describe("default policy", () => {
+        it("redirects everyone on unmatched paths in deny mode", async () => {
+            setConfig({defaultPolicy: "deny", protect: [{pattern: "/dashboard", role: "user"}]});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession()}, async () => {
+                await guard(mockContext({url: "http://localhost/dashboard"}) as any, next as any);
+                const response = await guard(mockContext({url: "http://localhost/new-page"}) as any, next as any) as Response;
+                expect(response.headers.get("Location")).toBe("/login");
+            });
+
+            expect(next).toHaveBeenCalledTimes(1);
+        });
+
+        it("requires a session on unmatched paths in authenticated mode", async () => {
+            setConfig({defaultPolicy: "authenticated"});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/new-page"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+            expect(next).not.toHaveBeenCalled();
+
+            await runWithContext({session: mockSession()}, async () => {
+                await guard(mockContext({url: "http://localhost/new-page"}) as any, next as any);
+            });
+            expect(next).toHaveBeenCalled();
+        });
+
+        it("keeps public paths and the login page reachable", async () => {
+            setConfig({defaultPolicy: "deny", loginPath: "/auth/login?from=guard", public: ["/", "/about"]});
+
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                await guard(mockContext({url: "http://localhost/"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/about"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/auth/login"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalledTimes(3);
+        });
+    });
+
+    describe("denial responses", () => {
+        it("uses the global deniedResponse", async () => {
+            setConfig({deniedResponse: 401, protect: [{pattern: "/api/**", role: "admin"}]});
+
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/api/posts"});
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(ctx as any, mockNext() as any) as Response;
+                expect(response.status).toBe(401);
+                expect(await response.json()).toMatchObject({error: "unauthorized"});
+            });
+        });
+
+        it("lets a rule override the global deniedResponse", async () => {
+            setConfig({
+                deniedResponse: "negotiate",
+                protect: [
+                    {pattern: "/api/**", role: "admin", deniedResponse: 403},
+                    {pattern: "/admin/**", role: "admin"},
+                ],
+            });
+
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: mockSession()}, async () => {
+                const api = await guard(mockContext({url: "http://localhost/api/posts"}) as any, mockNext() as any) as Response;
+                expect(api.status).toBe(403);
+
+                const page = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(page.status).toBe(302);
+
+                const fetched = await guard(
+                    mockContext({url: "http://localhost/admin", headers: {accept: "application/json"}}) as any,
+                    mockNext() as any
+                ) as Response;
+                expect(fetched.status).toBe(403);
+            });
+        });
+    });
+
+    describe("returnTo parameter", () => {
+        it("adds the original destination to redirects when configured", async () => {
+            setConfig({returnToParam: "returnTo", protect: [{pattern: "/admin/**", role: "admin"}]});
+
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/admin/users?page=2"});
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(ctx as any, mockNext() as any) as Response;
+                expect(response.headers.get("Location")).toBe("/login?returnTo=%2Fadmin%2Fusers%3Fpage%3D2");
+            });
+        });
+
+        it("does not add it for non-GET requests or when not configured", async () => {
+            setConfig({returnToParam: "returnTo", protect: [{pattern: "/admin/**", role: "admin"}]});
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null}, async () => {
+                const post = await guard(mockContext({url: "http://localhost/admin", method: "POST"}) as any, mockNext() as any) as Response;
+                expect(post.headers.get("Location")).toBe("/login");
+
+                setConfig({protect: [{pattern: "/admin/**", role: "admin"}]});
+                const get = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(get.headers.get("Location")).toBe("/login");
+            });
+        });
+    });
+
+    describe("expired sessions", () => {
+        const protect: ProtectionRule[] = [{pattern: "/admin/**", role: "admin"}];
+
+        it("redirects to login with the expiry reason", async () => {
+            const onDenied = vi.fn();
+            setConfig({returnToParam: "returnTo", protect, onDenied});
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null, expired: "idle"}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.headers.get("Location")).toBe("/login?returnTo=%2Fadmin&reason=session-expired");
+            });
+            expect(onDenied.mock.calls[0]?.[0]).toMatchObject({reason: "session-expired", status: 401});
+        });
+
+        it("uses the configured parameter, or none", async () => {
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null, expired: "max-age"}, async () => {
+                setConfig({expiredParam: "expired", protect});
+                const named = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(named.headers.get("Location")).toBe("/login?expired=session-expired");
+
+                setConfig({expiredParam: false, protect});
+                const disabled = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(disabled.headers.get("Location")).toBe("/login");
+            });
+        });
+    });
+
+    describe("unauthenticated vs unauthorized", () => {
+        const protect: ProtectionRule[] = [{pattern: "/admin/**", role: "admin"}];
+
+        it("sends anonymous users to login and signed-in users to the forbidden page", async () => {
+            setConfig({forbiddenPath: "/forbidden", returnToParam: "returnTo", protect});
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.headers.get("Location")).toBe("/login?returnTo=%2Fadmin");
+            });
+
+            await runWithContext({session: mockSession()}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.headers.get("Location")).toBe("/forbidden");
+            });
+        });
+
+        it("rewrites to the forbidden page when configured", async () => {
+            setConfig({forbiddenPath: "/forbidden", forbiddenResponse: "rewrite", protect});
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: mockSession()}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.headers.get("X-Rewritten-To")).toBe("/forbidden");
+            });
+        });
+
+        it("answers signed-in users with 403 when configured", async () => {
+            setConfig({forbiddenResponse: 403, protect});
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: mockSession()}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.status).toBe(403);
+            });
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.status).toBe(302);
+            });
+        });
+
+        it("lets rules override the forbidden handling", async () => {
+            setConfig({
+                forbiddenPath: "/forbidden",
+                protect: [
+                    {pattern: "/billing/**", role: "owner", forbiddenPath: "/billing/upgrade"},
+                    {pattern: "/api/**", role: "admin", forbiddenResponse: 403},
+                ],
+            });
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: mockSession()}, async () => {
+                const billing = await guard(mockContext({url: "http://localhost/billing/plans"}) as any, mockNext() as any) as Response;
+                expect(billing.headers.get("Location")).toBe("/billing/upgrade");
+
+                const api = await guard(mockContext({url: "http://localhost/api/users"}) as any, mockNext() as any) as Response;
+                expect(api.status).toBe(403);
+            });
+        });
+
+        it("keeps the forbidden page reachable under a deny policy", async () => {
+            setConfig({defaultPolicy: "deny", forbiddenPath: "/forbidden"});
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession()}, async () => {
+                await guard(mockContext({url: "http://localhost/forbidden"}) as any, next as any);
+                const response = await guard(mockContext({url: "http://localhost/other"}) as any, next as any) as Response;
+                expect(response.headers.get("Location")).toBe("/forbidden");
+            });
+
+            expect(next).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe("lifecycle hooks", () => {
+        it("reports denials with the rule, params and reason", async () => {
+            const onDenied = vi.fn();
+            const rule: ProtectionRule = {pattern: "/orgs/[orgId]/**", role: "admin"};
+            setConfig({protect: [rule], onDenied});
+            const guard = createGuardMiddleware();
+            const session = mockSession({role: "user"});
+
+            await runWithContext({session}, async () => {
+                await guard(mockContext({url: "http://localhost/orgs/acme/settings"}) as any, mockNext() as any);
+            });
+
+            expect(onDenied).toHaveBeenCalledWith(
+                {
+                    allowed: false,
+                    pathname: "/orgs/acme/settings",
+                    rule,
+                    params: {orgId: "acme"},
+                    session,
+                    reason: "missing-role",
+                    status: 403,
+                    redirectTo: "/login",
+                    reportOnly: false,
+                },
+                expect.anything()
+            );
+        });
+
+        it("gives the reason each check failed", async () => {
+            const reasons: string[] = [];
+            setConfig({
+                protect: [
+                    {pattern: "/roles", roles: ["admin", "editor"]},
+                    {pattern: "/perms", permissions: ["a", "b"]},
+                    {pattern: "/custom", allow: () => false},
+                    {pattern: "/throws", allow: () => { throw new Error("boom"); }},
+                    {pattern: "/not", not: {role: "user"}},
+                ],
+                onDenied: (decision) => { reasons.push(decision.reason); },
+            });
+            const guard = createGuardMiddleware();
+            const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+            await runWithContext({session: mockSession({role: "user", permissions: ["a"]})}, async () => {
+                for (const path of ["/roles", "/perms", "/custom", "/throws", "/not"]) {
+                    await guard(mockContext({url: `http://localhost${path}`}) as any, mockNext() as any);
+                }
+            });
+            await runWithContext({session: null}, async () => {
+                await guard(mockContext({url: "http://localhost/roles"}) as any, mockNext() as any);
+            });
+
+            expect(reasons).toEqual([
+                "missing-role",
+                "missing-permission",
+                "custom-check-failed",
+                "custom-check-threw",
+                "negated-condition",
+                "no-session",
+            ]);
+            spy.mockRestore();
+        });
+
+        it("reports denials by the default policy", async () => {
+            const onDenied = vi.fn();
+            setConfig({defaultPolicy: "deny", onDenied});
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null}, async () => {
+                await guard(mockContext({url: "http://localhost/new-page"}) as any, mockNext() as any);
+            });
+
+            expect(onDenied.mock.calls[0]![0]).toMatchObject({rule: null, reason: "default-policy", status: 401});
+        });
+
+        it("lets onDenied replace the response", async () => {
+            setConfig({
+                protect: [{pattern: "/admin/**", role: "admin"}],
+                onDenied: () => new Response("Custom", {status: 418}),
+            });
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.status).toBe(418);
+            });
+        });
+
+        it("falls back to the configured response when onDenied returns nothing or throws", async () => {
+            const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+            setConfig({
+                protect: [{pattern: "/admin/**", role: "admin"}],
+                onDenied: () => { throw new Error("boom"); },
+            });
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.headers.get("Location")).toBe("/login");
+            });
+
+            expect(spy).toHaveBeenCalled();
+            spy.mockRestore();
+        });
+
+        it("reports what granted access", async () => {
+            const onAllowed = vi.fn();
+            const rule: ProtectionRule = {pattern: "/admin/**", role: "admin"};
+            setConfig({protect: [rule], public: ["/health"], onAllowed});
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "admin"})}, async () => {
+                await guard(mockContext({url: "http://localhost/admin/users"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/health"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/about"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalledTimes(3);
+            expect(onAllowed.mock.calls.map(([decision]) => [decision.grantedBy, decision.rule])).toEqual([
+                ["rule", rule],
+                ["public", null],
+                ["default-policy", null],
+            ]);
+        });
+
+        it("still allows the request when onAllowed throws", async () => {
+            const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+            setConfig({protect: [{pattern: "/admin/**", role: "admin"}], onAllowed: () => { throw new Error("boom"); }});
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "admin"})}, async () => {
+                await guard(mockContext({url: "http://localhost/admin"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalled();
+            spy.mockRestore();
+        });
+    });
+
+    describe("report-only mode", () => {
+        it("records would-be denials but lets the request through", async () => {
+            const onDenied = vi.fn(() => new Response("Ignored", {status: 418}));
+            setConfig({reportOnly: true, protect: [{pattern: "/admin/**", role: "admin"}], onDenied});
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                await guard(mockContext({url: "http://localhost/admin"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalled();
+            expect(onDenied.mock.calls[0]![0]).toMatchObject({reason: "no-session", reportOnly: true});
+        });
+
+        it("logs would-be denials when no onDenied hook is set", async () => {
+            const spy = vi.spyOn(console, "warn").mockImplementation(() => {});
+            setConfig({protect: [{pattern: "/admin/**", role: "admin", reportOnly: true}]});
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "user"})}, async () => {
+                await guard(mockContext({url: "http://localhost/admin/users"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalled();
+            expect(spy).toHaveBeenCalledWith(expect.stringContaining("would deny GET /admin/users (missing-role)"));
+            spy.mockRestore();
+        });
+
+        it("still enforces the other rules that apply", async () => {
+            const onDenied = vi.fn();
+            setConfig({
+                ruleResolution: "all",
+                protect: [
+                    {pattern: "/admin/**", permission: "admin:new", reportOnly: true},
+                    {pattern: "/admin/**", role: "admin"},
+                ],
+                onDenied,
+            });
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "user"})}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).not.toHaveBeenCalled();
+            expect(onDenied.mock.calls.map(([decision]) => decision.reportOnly)).toEqual([true, false]);
+        });
+
+        it("records only rules that passed in the access decision", async () => {
+            setConfig({
+                ruleResolution: "all",
+                protect: [
+                    {pattern: "/a/**", role: "admin", reportOnly: true},
+                    {pattern: "/a/b/**", role: "user"},
+                ],
+                onDenied: () => {},
+            });
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: mockSession({role: "user"})}, async () => {
+                const granted = mockContext({url: "http://localhost/a/b/c"});
+                await guard(granted as any, mockNext() as any);
+                expect(granted.locals.accessDecision).toMatchObject({rule: {pattern: "/a/b/**"}, pattern: "/a/b/**", grantedBy: "rule"});
+
+                const reported = mockContext({url: "http://localhost/a/x"});
+                await guard(reported as any, mockNext() as any);
+                expect(reported.locals.accessDecision).toMatchObject({rule: null, pattern: null, grantedBy: "report-only"});
+            });
+        });
+
+        it("lets rules opt out of the global report-only mode", async () => {
+            setConfig({
+                reportOnly: true,
+                protect: [{pattern: "/admin/**", role: "admin", reportOnly: false}],
+                onDenied: () => {},
+            });
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.status).toBe(302);
+            });
+        });
+
+        it("reports default policy denials", async () => {
+            const onDenied = vi.fn();
+            setConfig({reportOnly: true, defaultPolicy: "deny", onDenied});
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                await guard(mockContext({url: "http://localhost/new-page"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalled();
+            expect(onDenied.mock.calls[0]![0]).toMatchObject({reason: "default-policy", reportOnly: true});
+        });
+    });
+
+    describe("access decision on locals", () => {
+        it("records the matched rule, pattern, params and satisfied checks", async () => {
+            const rule: ProtectionRule = {
+                pattern: "/orgs/[orgId]/**",
+                all: [
+                    {any: [{role: "owner"}, {permission: "orgs:manage"}]},
+                    {not: {role: "suspended"}},
+                ],
+            };
+            setConfig({protect: [rule]});
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/orgs/acme/settings"});
+
+            await runWithContext({session: mockSession({role: "user", permissions: ["orgs:manage"]})}, async () => {
+                await guard(ctx as any, mockNext() as any);
+            });
+
+            expect(ctx.locals.accessDecision).toMatchObject({
+                allowed: true,
+                pathname: "/orgs/acme/settings",
+                rule,
+                pattern: "/orgs/[orgId]/**",
+                params: {orgId: "acme"},
+                grantedBy: "rule",
+                satisfied: [{permission: "orgs:manage"}, {not: {role: "suspended"}}],
+            });
+        });
+
+        it("collects checks from every applicable rule", async () => {
+            setConfig({
+                ruleResolution: "all",
+                protect: [
+                    {pattern: "/admin/**", role: "admin"},
+                    {pattern: "/admin/billing/**", permission: "billing:read"},
+                ],
+            });
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/admin/billing"});
+
+            await runWithContext({session: mockSession({role: "admin", permissions: ["billing:read"]})}, async () => {
+                await guard(ctx as any, mockNext() as any);
+            });
+
+            expect(ctx.locals.accessDecision.pattern).toBe("/admin/**");
+            expect(ctx.locals.accessDecision.satisfied).toEqual([{role: "admin"}, {permission: "billing:read"}]);
+        });
+
+        it("records public and default policy grants", async () => {
+            setConfig({protect: [{pattern: "/admin/**", role: "admin"}], public: ["/health"]});
+            const guard = createGuardMiddleware();
+            const health = mockContext({url: "http://localhost/health"});
+            const about = mockContext({url: "http://localhost/about"});
+
+            await runWithContext({session: null}, async () => {
+                await guard(health as any, mockNext() as any);
+                await guard(about as any, mockNext() as any);
+            });
+
+            expect(health.locals.accessDecision).toMatchObject({grantedBy: "public", pattern: "/health", satisfied: []});
+            expect(about.locals.accessDecision).toMatchObject({grantedBy: "default-policy", pattern: null, rule: null});
+        });
+
+        it("does not record denied requests", async () => {
+            setConfig({protect: [{pattern: "/admin/**", role: "admin"}]});
+            const guard = createGuardMiddleware();
+            const ctx = mockContext({url: "http://localhost/admin"});
+
+            await runWithContext({session: null}, async () => {
+                await guard(ctx as any, mockNext() as any);
+            });
+
+            expect(ctx.locals.accessDecision).toBeUndefined();
+        });
+    });
+
+    describe("redirect loop detection", () => {
+        it("fails instead of redirecting a page to itself", async () => {
+            setConfig({protect: [{pattern: "/login", allow: () => false}]});
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null}, async () => {
+                await expect(guard(mockContext({url: "http://localhost/login/"}) as any, mockNext() as any))
+                    .rejects.toThrow(/Redirect loop: "\/login" is denied by rule "\/login" \(custom-check-failed\)/);
+            });
+        });
+
+        it("fails on redirects bouncing between denied pages", async () => {
+            // Each page redirects to the other; only a runtime check can tell
+            setConfig({
+                protect: [
+                    {pattern: "/a", allow: () => false, redirectTo: "/b"},
+                    {pattern: "/b", allow: () => false, redirectTo: "/a"},
+                    {pattern: "/ok", role: "user"},
+                ],
+            });
+            const guard = createGuardMiddleware();
+            const jar = new Map<string, string>();
+            const request = (url: string) => {
+                const ctx = mockContext({url});
+                ctx.cookies = {
+                    get: vi.fn((name: string) => (jar.has(name) ? {value: jar.get(name)} : undefined)),
+                    set: vi.fn((name: string, value: string) => void jar.set(name, value)),
+                    delete: vi.fn((name: string) => void jar.delete(name)),
+                    has: vi.fn((name: string) => jar.has(name)),
+                };
+                return guard(ctx as any, mockNext() as any) as Promise<Response>;
+            };
+
+            await runWithContext({session: mockSession({role: "user"})}, async () => {
+                let location = "/a";
+                for (let hop = 0; hop < 10; hop++) {
+                    location = (await request(`http://localhost${location}`)).headers.get("Location")!;
+                }
+                await expect(request(`http://localhost${location}`)).rejects.toThrow(/Redirect loop: 10 redirects in a row between denied pages/);
+
+                // Reaching an allowed page starts the count over
+                await request("http://localhost/a");
+                await request("http://localhost/ok");
+                expect(jar.size).toBe(0);
+            });
+        });
+
+        it("does not count redirects from unrelated denied pages", async () => {
+            setConfig({protect: [{pattern: "/app/**", role: "user"}]});
+            const guard = createGuardMiddleware();
+            const jar = new Map<string, string>();
+            const request = (url: string) => {
+                const ctx = mockContext({url});
+                ctx.cookies = {
+                    get: vi.fn((name: string) => (jar.has(name) ? {value: jar.get(name)} : undefined)),
+                    set: vi.fn((name: string, value: string) => void jar.set(name, value)),
+                    delete: vi.fn((name: string) => void jar.delete(name)),
+                    has: vi.fn((name: string) => jar.has(name)),
+                };
+                return guard(ctx as any, mockNext() as any) as Promise<Response>;
+            };
+
+            // Prefetched links, none of them followed to /login
+            await runWithContext({session: null}, async () => {
+                for (let page = 1; page <= 25; page++) {
+                    const response = await request(`http://localhost/app/page${page}`);
+                    expect(response.headers.get("Location")).toMatch(/^\/login/);
+                }
+            });
+        });
+
+        it("fails instead of rewriting the forbidden page to itself", async () => {
+            setConfig({
+                forbiddenPath: "/forbidden",
+                forbiddenResponse: "rewrite",
+                protect: [{pattern: "/forbidden", allow: (session) => session?.role === "admin"}],
+            });
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: mockSession()}, async () => {
+                await expect(guard(mockContext({url: "http://localhost/forbidden"}) as any, mockNext() as any))
+                    .rejects.toThrow(/Redirect loop/);
+            });
+        });
+
+        it("still answers JSON denials on the target page", async () => {
+            setConfig({protect: [{pattern: "/login", allow: () => false, deniedResponse: 401}]});
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: null}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/login"}) as any, mockNext() as any) as Response;
+                expect(response.status).toBe(401);
+            });
+        });
+    });
+
+    describe("role hierarchy", () => {
+        beforeEach(() => {
+            setConfig({
+                roleHierarchy: {owner: ["admin"], admin: ["editor"], editor: ["viewer"]},
+                protect: [
+                    {pattern: "/admin/**", role: "admin"},
+                    {pattern: "/docs/**", roles: ["viewer", "support"]},
+                ],
+            });
+        });
+
+        it("lets higher roles pass checks for inherited roles", async () => {
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "owner"})}, async () => {
+                await guard(mockContext({url: "http://localhost/admin"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/docs/intro"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalledTimes(2);
+        });
+
+        it("does not let lower roles pass", async () => {
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: mockSession({role: "editor"})}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.status).toBe(302);
+            });
+        });
+    });
+
+    describe("role permissions", () => {
+        it("checks permissions granted by the session's role", async () => {
+            setConfig({
+                roleHierarchy: {admin: ["editor"]},
+                roles: {editor: {permissions: ["posts:write"]}},
+                protect: [
+                    {pattern: "/posts/new", permission: "posts:write"},
+                    {pattern: "/posts/publish", permissions: ["posts:write", "posts:publish"]},
+                ],
+            });
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "admin", permissions: ["posts:publish"]})}, async () => {
+                await guard(mockContext({url: "http://localhost/posts/new"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/posts/publish"}) as any, next as any);
+            });
+            await runWithContext({session: mockSession({role: "viewer"})}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/posts/new"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("permission matching", () => {
+        it("lets wildcard and implied grants satisfy permission rules", async () => {
+            setConfig({
+                permissionMatching: {implies: {write: ["read"]}},
+                protect: [
+                    {pattern: "/posts/**", permission: "posts:read"},
+                    {pattern: "/billing/**", permissions: ["billing:read", "billing:export"]},
+                ],
+            });
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({permissions: ["posts:write", "billing:*"]})}, async () => {
+                await guard(mockContext({url: "http://localhost/posts/1"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/billing/invoices"}) as any, next as any);
+            });
+            await runWithContext({session: mockSession({permissions: ["billing:read"]})}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/billing/invoices"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe("multiple roles per session", () => {
+        it("checks every role the session holds", async () => {
+            setConfig({
+                protect: [
+                    {pattern: "/admin/**", role: "admin"},
+                    {pattern: "/support/**", roles: ["support", "staff"]},
+                ],
+            });
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "user", roles: ["admin", "support"]})}, async () => {
+                await guard(mockContext({url: "http://localhost/admin"}) as any, next as any);
+                await guard(mockContext({url: "http://localhost/support/tickets"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalledTimes(2);
+        });
+
+        it("uses the getRoles hook when provided", async () => {
+            setConfig({
+                protect: [{pattern: "/admin/**", role: "admin"}],
+                access: {getRoles: (session) => (session?.groups as string[]) ?? []},
+            });
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: mockSession({role: "admin", groups: ["staff"]})}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/admin"}) as any, mockNext() as any) as Response;
+                expect(response.status).toBe(302);
+            });
+        });
+
+        it("derives role permissions from every role", async () => {
+            setConfig({
+                roles: {billing: {permissions: ["invoices:read"]}},
+                protect: [{pattern: "/invoices/**", permission: "invoices:read"}],
+            });
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({role: "user", roles: ["billing"]})}, async () => {
+                await guard(mockContext({url: "http://localhost/invoices"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalled();
+        });
+    });
+
+    describe("policy rules", () => {
+        beforeEach(() => {
+            clearPolicies();
+            definePolicy<{authorId: string}>("post", {
+                edit: (session, post) => session?.userId === post.authorId,
+                view: () => true,
+            });
+        });
+
+        it("evaluates the policy with the resource loaded from params", async () => {
+            const posts: Record<string, {authorId: string}> = {"1": {authorId: "alice"}};
+            const onDenied = vi.fn();
+            setConfig({
+                protect: [{
+                    pattern: "/posts/[id]/edit",
+                    policy: {name: "post", action: "edit", resource: (params) => posts[params.id!]},
+                }],
+                onDenied,
+            });
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({userId: "alice"})}, async () => {
+                await guard(mockContext({url: "http://localhost/posts/1/edit"}) as any, next as any);
+            });
+            await runWithContext({session: mockSession({userId: "bob"})}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/posts/1/edit"}) as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).toHaveBeenCalledTimes(1);
+            expect(onDenied.mock.calls[0]![0].reason).toBe("policy-denied");
+        });
+
+        it("passes the route params when no loader is given, even to anonymous users", async () => {
+            setConfig({protect: [{pattern: "/posts/[id]", policy: {name: "post", action: "view"}}]});
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: null}, async () => {
+                await guard(mockContext({url: "http://localhost/posts/1"}) as any, next as any);
+            });
+
+            expect(next).toHaveBeenCalled();
+        });
+
+        it("denies when the policy is unknown", async () => {
+            const spy = vi.spyOn(console, "error").mockImplementation(() => {});
+            setConfig({protect: [{pattern: "/posts/**", policy: {name: "missing", action: "view"}}]});
+            const guard = createGuardMiddleware();
+
+            await runWithContext({session: mockSession()}, async () => {
+                const response = await guard(mockContext({url: "http://localhost/posts/1"}) as any, mockNext() as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            spy.mockRestore();
+        });
+    });
+
+    describe("ownership rules", () => {
+        beforeEach(() => {
+            setConfig({
+                roleHierarchy: {owner: ["admin"]},
+                protect: [
+                    {pattern: "/users/[id]/**", owner: {param: "id", bypassRoles: ["admin"]}},
+                    {pattern: "/orgs/[orgId]/**", owner: {param: "orgId", field: "orgId"}},
+                ],
+            });
+        });
+
+        const request = async (session: any, url: string) => {
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+            let response: Response | undefined;
+            await runWithContext({session}, async () => {
+                response = await guard(mockContext({url}) as any, next as any) as Response;
+            });
+            return next.mock.calls.length > 0 ? "allowed" : response!.headers.get("Location");
+        };
+
+        it("lets the owner through", async () => {
+            expect(await request(mockSession({userId: "u1"}), "http://localhost/users/u1/settings")).toBe("allowed");
+            expect(await request(mockSession({orgId: 42}), "http://localhost/orgs/42/billing")).toBe("allowed");
+        });
+
+        it("denies everyone else", async () => {
+            expect(await request(mockSession({userId: "u2"}), "http://localhost/users/u1/settings")).toBe("/login");
+            expect(await request(mockSession({userId: "u1"}), "http://localhost/orgs/42/billing")).toBe("/login");
+            expect(await request(null, "http://localhost/users/u1/settings")).toBe("/login");
+        });
+
+        it("lets bypass roles through, including inherited ones", async () => {
+            expect(await request(mockSession({userId: "u2", role: "admin"}), "http://localhost/users/u1")).toBe("allowed");
+            expect(await request(mockSession({userId: "u2", role: "owner"}), "http://localhost/users/u1")).toBe("allowed");
+        });
+
+        it("cannot be bypassed with encoded path segments", async () => {
+            const guard = createGuardMiddleware();
+            const next = mockNext();
+
+            await runWithContext({session: mockSession({userId: "bob"})}, async () => {
+                const ctx = mockContext({url: "http://localhost/users/alice/x%2F..%2F..%2Fbob/secret"});
+                const response = await guard(ctx as any, next as any) as Response;
+                expect(response.status).toBe(302);
+            });
+
+            expect(next).not.toHaveBeenCalled();
+        });
+
+        it("reports not-owner denials", async () => {
+            const onDenied = vi.fn();
+            setConfig({protect: [{pattern: "/users/[id]/**", owner: {param: "id"}}], onDenied});
+
+            await request(mockSession({userId: "u2"}), "http://localhost/users/u1");
+
+            expect(onDenied.mock.calls[0]![0]).toMatchObject({reason: "not-owner", params: {id: "u1"}});
+        });
+    });
+});
@@ -3,7 +3,7 @@
 // ============================================================================
 
 import { describe, it, expect } from "vitest";
-import { matchesPattern } from "../src/core/matcher";
+import { matchesPattern, matchPattern, createRuleTable, matchRules, findFirstMatch, resolveRules } from "../src/core/matcher";
 
 describe("matcher", () => {
   describe("exact paths", () => {
@@ -73,6 +73,27 @@ describe("matcher", () => {
     });
   });
 
+  describe("dynamic segments", () => {
+    it("captures [param] within a single segment", () => {
+      expect(matchPattern("/orgs/[orgId]/settings", "/orgs/acme/settings")).toEqual({ orgId: "acme" });
+      expect(matchPattern("/[lang]-docs/intro", "/en-docs/intro")).toEqual({ lang: "en" });
+      expect(matchPattern("/orgs/[orgId]/settings", "/orgs/acme/team/settings")).toBeNull();
+      expect(matchPattern("/orgs/[orgId]", "/orgs")).toBeNull();
+    });
+
+    it("captures [...rest] across zero or more segments", () => {
+      expect(matchPattern("/docs/[...slug]", "/docs/a/b/c")).toEqual({ slug: "a/b/c" });
+      expect(matchPattern("/docs/[...slug]", "/docs")).toEqual({ slug: undefined });
+      expect(matchPattern("/docs/[...slug]/edit", "/docs/a/b/edit")).toEqual({ slug: "a/b" });
+      expect(matchPattern("/docs/[...slug]/edit", "/docs/edit")).toEqual({ slug: undefined });
+      expect(matchPattern("/docs/[...slug]", "/documents")).toBeNull();
+    });
+
+    it("returns empty params for patterns without dynamic segments", () => {
+      expect(matchPattern("/admin/**", "/admin/users")).toEqual({});
+    });
+  });
+
   describe("edge cases", () => {
     it("handles trailing slashes correctly", () => {
       expect(matchesPattern("/dashboard", "/dashboard/")).toBe(false);
@@ -89,4 +110,169 @@ describe("matcher", () => {
       expect(matchesPattern("/", "/anything")).toBe(false);
     });
   });
-});
\ No newline at end of file
+
+  describe("rule table", () => {
+    const patterns = [
+      "/",
+      "/admin/**",
+      "/admin/billing/**",
+      "/users/*",
+      "/api/*/item",
+      "/a/**/b",
+      "/**/edit",
+      "/*/admin/*",
+      "/dashboard",
+      "/dashboard/",
+      "/files/report**",
+      "/[lang]/docs/**",
+      "/[lang]/admin/[id]",
+      "/[org]-[team]/settings",
+      "/[id]/**/tail",
+      "/[...slug]/raw",
+    ];
+    const paths = [
+      "/",
+      "/admin",
+      "/admin/billing/invoices",
+      "/users",
+      "/users/123/profile",
+      "/api/v1/v2/item",
+      "/ab",
+      "/a/x/b",
+      "/posts/1/edit",
+      "/app/admin/settings",
+      "/dashboard",
+      "/dashboard/",
+      "/files/report-2024/q1",
+      "/unknown",
+      "/en/docs/intro",
+      "/fr/admin/42",
+      "/fr/admin",
+      "/acme-web/settings",
+      "/acme/settings",
+      "/x/tail",
+      "/xtail",
+      "/x/y/z/tail",
+      "/x/y/raw",
+      "//docs/intro",
+    ];
+
+    it("finds the same rule as a linear scan", () => {
+      const rules = patterns.map((pattern) => ({ pattern }));
+      const table = createRuleTable(rules);
+
+      for (const path of paths) {
+        const expected = rules.find((r) => matchesPattern(r.pattern, path));
+        expect(resolveRules(table, path, "first-match")[0]?.rule).toBe(expected);
+      }
+    });
+
+    it("finds the same rules as a linear scan", () => {
+      const rules = patterns.map((pattern) => ({ pattern }));
+      const table = createRuleTable(rules);
+
+      for (const path of paths) {
+        const expected = rules.filter((r) => matchesPattern(r.pattern, path));
+        expect(matchRules(table, path).map((m) => m.rule)).toEqual(expected);
+      }
+    });
+
+    it("stops at the first declared match", () => {
+      const table = createRuleTable([
+        { pattern: "/[lang]/admin/**" },
+        { pattern: "/en/**" },
+        { pattern: "/en/admin/users" },
+      ]);
+
+      expect(findFirstMatch(table, "/en/admin/users")?.index).toBe(0);
+      expect(findFirstMatch(table, "/en/docs")?.index).toBe(1);
+      expect(findFirstMatch(table, "/docs")).toBeNull();
+    });
+
+    it("returns every matching rule in declaration order", () => {
+      const table = createRuleTable([
+        { pattern: "/admin/billing/**" },
+        { pattern: "/admin/**" },
+        { pattern: "/**" },
+      ]);
+
+      const matches = matchRules(table, "/admin/billing/x");
+      expect(matches.map((m) => m.index)).toEqual([0, 1, 2]);
+      expect(matchRules(table, "/public").map((m) => m.rule.pattern)).toEqual(["/**"]);
+    });
+
+    it("skips rules whose exclusions match the path", () => {
+      const table = createRuleTable([{ pattern: "/app/**", exclude: ["/app/public/**", "/app/health"] }]);
+
+      expect(matchRules(table, "/app/settings")).toHaveLength(1);
+      expect(matchRules(table, "/app/public/docs")).toHaveLength(0);
+      expect(matchRules(table, "/app/health")).toHaveLength(0);
+    });
+
+    it("matches case-insensitively when configured", () => {
+      const table = createRuleTable([{ pattern: "/Admin/**", exclude: ["/admin/public"] }, { pattern: "/orgs/[orgId]" }], {
+        caseSensitive: false,
+      });
+
+      expect(matchRules(table, "/ADMIN/users")).toHaveLength(1);
+      expect(matchRules(table, "/Admin/Public")).toHaveLength(0);
+      expect(matchRules(table, "/ORGS/AcMe")[0]?.params).toEqual({ orgId: "AcMe" });
+    });
+
+    it("ignores trailing slashes in patterns when configured", () => {
+      const table = createRuleTable([{ pattern: "/settings/" }], { ignoreTrailingSlash: true });
+      expect(matchRules(table, "/settings")).toHaveLength(1);
+    });
+
+    it("returns nothing for an empty table", () => {
+      expect(resolveRules(createRuleTable([]), "/admin", "first-match")).toEqual([]);
+    });
+  });
+
+  describe("rule resolution", () => {
+    const rules = [
+      { pattern: "/admin/**" },
+      { pattern: "/admin/billing/**" },
+      { pattern: "/admin/billing/invoices" },
+      { pattern: "/admin/*" },
+    ];
+    const table = createRuleTable(rules);
+
+    it("picks the first declared rule in first-match mode", () => {
+      expect(resolveRules(table, "/admin/billing/invoices", "first-match").map((m) => m.rule)).toEqual([rules[0]]);
+    });
+
+    it("ranks literal segments before * before **", () => {
+      const best = (path: string) => resolveRules(table, path, "most-specific").map((m) => m.rule);
+      expect(best("/admin/billing/invoices")).toEqual([rules[2]]);
+      expect(best("/admin/billing/x/y")).toEqual([rules[1]]);
+      expect(best("/admin/users")).toEqual([rules[3]]);
+    });
+
+    it("prefers an exact pattern over a trailing **", () => {
+      const exact = createRuleTable([{ pattern: "/admin/**" }, { pattern: "/admin" }]);
+      expect(resolveRules(exact, "/admin", "most-specific")[0]?.rule).toEqual({ pattern: "/admin" });
+    });
+
+    it("keeps declaration order for equally specific patterns", () => {
+      const tied = createRuleTable([{ pattern: "/a/*/c" }, { pattern: "/a/*/c", id: 2 }]);
+      expect(resolveRules(tied, "/a/b/c", "most-specific")[0]?.index).toBe(0);
+    });
+
+    it("returns every matching rule in all mode", () => {
+      expect(resolveRules(table, "/admin/billing/invoices", "all").map((m) => m.rule)).toEqual(rules);
+    });
+
+    it("ranks [param] like * and [...rest] like **", () => {
+      const dynamic = createRuleTable([
+        { pattern: "/orgs/[...rest]" },
+        { pattern: "/orgs/[orgId]/settings" },
+        { pattern: "/orgs/acme/settings" },
+      ]);
+      const [best] = resolveRules(dynamic, "/orgs/globex/settings", "most-specific");
+      expect(best?.rule.pattern).toBe("/orgs/[orgId]/settings");
+      expect(best?.params).toEqual({ orgId: "globex" });
+      expect(resolveRules(dynamic, "/orgs/acme/settings", "most-specific")[0]?.params).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,69 @@
+// ============================================================================
+// Pathname Normalization Tests
+// ============================================================================
+
+import {describe, it, expect} from "vitest";
+import {normalizeBase, normalizePathname, normalizePattern} from "../src/core/pathname";
+
+describe("pathname normalization", () => {
+    describe("normalizePathname", () => {
+        it("decodes percent-encoding once", () => {
+            expect(normalizePathname("/%61dmin")).toBe("/admin");
+            expect(normalizePathname("/caf%C3%A9")).toBe("/café");
+            expect(normalizePathname("/%2561dmin")).toBe("/%61dmin");
+        });
+
+        it("collapses duplicate slashes and drops the trailing slash", () => {
+            expect(normalizePathname("//admin///users/")).toBe("/admin/users");
+            expect(normalizePathname("/admin/")).toBe("/admin");
+            expect(normalizePathname("/")).toBe("/");
+            expect(normalizePathname("")).toBe("/");
+        });
+
+        it("resolves literal dot segments", () => {
+            expect(normalizePathname("/a/./b")).toBe("/a/b");
+            expect(normalizePathname("/a/../b")).toBe("/b");
+        });
+
+        it("keeps encoded separators inside their segment", () => {
+            expect(normalizePathname("/blog/a%2Fb")).toBe("/blog/a%2Fb");
+            expect(normalizePathname("/public/..%2fadmin")).toBe("/public/..%2Fadmin");
+            expect(normalizePathname("/admin/x%2F..%2F..%2Fpublic")).toBe("/admin/x%2F..%2F..%2Fpublic");
+            expect(normalizePathname("/admin%5C..%5Cpublic")).toBe("/admin%5C..%5Cpublic");
+        });
+
+        it("rejects segments that decode to dot segments", () => {
+            expect(normalizePathname("/admin/%2E%2E/public")).toBeNull();
+            expect(normalizePathname("/admin/%2e")).toBeNull();
+        });
+
+        it("strips the base path", () => {
+            expect(normalizePathname("/docs/admin", "/docs")).toBe("/admin");
+            expect(normalizePathname("/docs", "/docs")).toBe("/");
+            expect(normalizePathname("/docs/", "/docs")).toBe("/");
+            expect(normalizePathname("/docsite/admin", "/docs")).toBe("/docsite/admin");
+        });
+
+        it("returns null for malformed encoding", () => {
+            expect(normalizePathname("/%E0%A4%A")).toBeNull();
+            expect(normalizePathname("/%zz")).toBeNull();
+        });
+    });
+
+    describe("normalizeBase", () => {
+        it("produces a leading slash without a trailing one", () => {
+            expect(normalizeBase("/docs/")).toBe("/docs");
+            expect(normalizeBase("docs")).toBe("/docs");
+            expect(normalizeBase("/")).toBe("");
+            expect(normalizeBase("")).toBe("");
+        });
+    });
+
+    describe("normalizePattern", () => {
+        it("drops the trailing slash except for the root", () => {
+            expect(normalizePattern("/settings/")).toBe("/settings");
+            expect(normalizePattern("/admin/**")).toBe("/admin/**");
+            expect(normalizePattern("/")).toBe("/");
+        });
+    });
+});
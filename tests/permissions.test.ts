@@ -0,0 +1,56 @@
+// ============================================================================
+// Permission Matching Tests
+// ============================================================================
+
+import {describe, it, expect} from "vitest";
+import {createPermissionMatcher, exactPermissionMatcher} from "../src/core/permissions";
+
+describe("permission matching", () => {
+    it("compares exactly by default", () => {
+        expect(exactPermissionMatcher(["posts:*"], "posts:read")).toBe(false);
+        expect(exactPermissionMatcher(["posts:read"], "posts:read")).toBe(true);
+    });
+
+    describe("createPermissionMatcher", () => {
+        const matches = createPermissionMatcher({implies: {manage: ["write"], write: ["read"]}});
+
+        it("matches trailing wildcards against the rest of the permission", () => {
+            expect(matches(["posts:*"], "posts:read")).toBe(true);
+            expect(matches(["posts:*"], "posts:comments:delete")).toBe(true);
+            expect(matches(["posts:*"], "posts")).toBe(false);
+            expect(matches(["posts:*"], "billing:read")).toBe(false);
+            expect(matches(["*"], "billing:read")).toBe(true);
+        });
+
+        it("matches inner wildcards against one segment", () => {
+            expect(matches(["orgs:*:read"], "orgs:acme:read")).toBe(true);
+            expect(matches(["orgs:*:read"], "orgs:acme:write")).toBe(false);
+            expect(matches(["orgs:*:read"], "orgs:acme:members:read")).toBe(false);
+        });
+
+        it("does not treat a required wildcard as a grant", () => {
+            expect(matches(["posts:read"], "posts:*")).toBe(false);
+            expect(matches(["posts:*"], "posts:*")).toBe(true);
+        });
+
+        it("applies implied actions transitively to the last segment", () => {
+            expect(matches(["posts:write"], "posts:read")).toBe(true);
+            expect(matches(["posts:manage"], "posts:read")).toBe(true);
+            expect(matches(["posts:read"], "posts:write")).toBe(false);
+            expect(matches(["write:posts"], "read:posts")).toBe(false);
+            expect(matches(["posts:write"], "billing:read")).toBe(false);
+        });
+
+        it("supports a custom separator and wildcard", () => {
+            const dotted = createPermissionMatcher({separator: ".", wildcard: "all"});
+            expect(dotted(["posts.all"], "posts.read")).toBe(true);
+            expect(dotted(["posts:*"], "posts:read")).toBe(false);
+        });
+
+        it("tolerates implication cycles", () => {
+            const cyclic = createPermissionMatcher({implies: {a: ["b"], b: ["a"]}});
+            expect(cyclic(["x:a"], "x:b")).toBe(true);
+            expect(cyclic(["x:a"], "x:c")).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,58 @@
+// ============================================================================
+// Policy Tests
+// ============================================================================
+
+import {describe, it, expect, beforeEach} from "vitest";
+import {clearPolicies, definePolicy, evaluatePolicy, subject} from "../src/core/policies";
+import {mockSession} from "./test-utils";
+
+interface Post {
+    authorId: string;
+    published: boolean;
+}
+
+describe("policies", () => {
+    beforeEach(() => {
+        clearPolicies();
+    });
+
+    it("evaluates an action against the resource", async () => {
+        definePolicy<Post>("post", {
+            view: (session, post) => post.published || session?.userId === post.authorId,
+            edit: async (session, post) => session?.userId === post.authorId,
+        });
+        const draft = {authorId: "u1", published: false};
+
+        expect(await evaluatePolicy("post", "edit", mockSession({userId: "u1"}), draft)).toBe(true);
+        expect(await evaluatePolicy("post", "edit", mockSession({userId: "u2"}), draft)).toBe(false);
+        expect(await evaluatePolicy("post", "view", null, {...draft, published: true})).toBe(true);
+    });
+
+    it("replaces a policy defined again", async () => {
+        definePolicy("post", {view: () => false});
+        definePolicy("post", {view: () => true});
+
+        expect(await evaluatePolicy("post", "view", null, undefined)).toBe(true);
+    });
+
+    it("throws for unknown policies and actions", async () => {
+        definePolicy("post", {view: () => true});
+
+        await expect(evaluatePolicy("comment", "view", null, undefined)).rejects.toThrow('Unknown policy "comment"');
+        await expect(evaluatePolicy("post", "delete", null, undefined)).rejects.toThrow('does not define action "delete"');
+        await expect(evaluatePolicy("post", "toString", null, undefined)).rejects.toThrow('does not define action');
+    });
+
+    it("rejects invalid definitions", () => {
+        expect(() => definePolicy("", {})).toThrow("Invalid policy name");
+        expect(() => definePolicy("post", {view: true as any})).toThrow('Invalid action "view" in policy "post"');
+    });
+
+    it("pairs resources with a policy by name or definition", () => {
+        const policy = definePolicy("post", {view: () => true});
+        const post = {authorId: "u1", published: true};
+
+        expect(subject("post", post)).toEqual({policy: "post", resource: post});
+        expect(subject(policy, post)).toEqual({policy: "post", resource: post});
+    });
+});
@@ -0,0 +1,49 @@
+// ============================================================================
+// SessionKit.Register Type Tests (checked by tsc through vitest typecheck)
+// ============================================================================
+
+import {describe, it, expectTypeOf} from "vitest";
+import {getSession, hasPermission, hasRole, requireRole} from "../src/server";
+import type {AccessHooks, OwnershipCheck, ProtectionRule, Role} from "../src/core/types";
+
+declare global {
+    namespace SessionKit {
+        interface Register {
+            session: {tenantId: string; plan: "free" | "pro"};
+            role: "owner" | "admin" | "viewer";
+            permission: "posts:read" | "posts:write";
+        }
+    }
+}
+
+describe("SessionKit.Register", () => {
+    it("types registered session fields", () => {
+        expectTypeOf(getSession()!.tenantId).toEqualTypeOf<string>();
+        expectTypeOf(getSession()!.plan).toEqualTypeOf<"free" | "pro">();
+        expectTypeOf(getSession()!.userId).toEqualTypeOf<string>();
+    });
+
+    it("rejects misspelled permissions and roles", () => {
+        expectTypeOf(hasPermission).parameter(0).toEqualTypeOf<"posts:read" | "posts:write">();
+        expectTypeOf(hasRole).parameter(0).toEqualTypeOf<"owner" | "admin" | "viewer">();
+
+        // @ts-expect-error misspelled permission
+        hasPermission("posts:wirte");
+        // @ts-expect-error unknown role
+        requireRole("superuser");
+        // @ts-expect-error unknown role in a rule
+        const rule: ProtectionRule = {pattern: "/admin/**", role: "superuser"};
+        void rule;
+    });
+
+    it("types access hooks and ownership fields", () => {
+        expectTypeOf<ReturnType<NonNullable<AccessHooks["getRoles"]>>>().toEqualTypeOf<Role[]>();
+        expectTypeOf<ReturnType<NonNullable<AccessHooks["getRole"]>>>().toEqualTypeOf<Role | null>();
+
+        const owner: OwnershipCheck = {param: "id", field: "tenantId"};
+        void owner;
+        // @ts-expect-error not a session field
+        const typo: OwnershipCheck = {param: "id", field: "tenantID"};
+        void typo;
+    });
+});
@@ -0,0 +1,72 @@
+// ============================================================================
+// Roles Tests
+// ============================================================================
+
+import {describe, it, expect} from "vitest";
+import {compileRoleHierarchy, compileRolePermissions, effectivePermissions, roleGrants} from "../src/core/roles";
+
+describe("role hierarchy", () => {
+    const graph = compileRoleHierarchy({
+        owner: ["admin"],
+        admin: ["editor", "billing"],
+        editor: ["viewer"],
+    });
+
+    it("grants inherited roles transitively", () => {
+        expect(roleGrants(graph, "owner", "viewer")).toBe(true);
+        expect(roleGrants(graph, "owner", "billing")).toBe(true);
+        expect(roleGrants(graph, "admin", "editor")).toBe(true);
+    });
+
+    it("does not grant roles upwards or to unknown roles", () => {
+        expect(roleGrants(graph, "editor", "admin")).toBe(false);
+        expect(roleGrants(graph, "viewer", "editor")).toBe(false);
+        expect(roleGrants(graph, "guest", "viewer")).toBe(false);
+    });
+
+    it("always grants the role itself", () => {
+        expect(roleGrants(graph, "viewer", "viewer")).toBe(true);
+        expect(roleGrants(new Map(), "guest", "guest")).toBe(true);
+    });
+
+    it("ignores names inherited from Object.prototype", () => {
+        const graph = compileRoleHierarchy({constructor: ["toString"], toString: []});
+        expect(roleGrants(graph, "constructor", "toString")).toBe(true);
+        expect(roleGrants(compileRoleHierarchy({admin: ["constructor"]}), "admin", "constructor")).toBe(true);
+    });
+
+    it("rejects cycles with the path that loops", () => {
+        expect(() => compileRoleHierarchy({admin: ["admin"]})).toThrow("Cycle in roleHierarchy: admin → admin");
+        expect(() => compileRoleHierarchy({owner: ["admin"], admin: ["editor"], editor: ["owner"]}))
+            .toThrow("Cycle in roleHierarchy: owner → admin → editor → owner");
+    });
+});
+
+describe("role permissions", () => {
+    const graph = compileRoleHierarchy({admin: ["editor"], editor: ["viewer"]});
+    const rolePermissions = compileRolePermissions(
+        {
+            admin: {permissions: ["users:manage"]},
+            editor: {permissions: ["posts:write"]},
+            viewer: {permissions: ["posts:read"]},
+            guest: {},
+        },
+        graph
+    );
+
+    it("merges the permissions of inherited roles", () => {
+        expect([...rolePermissions.get("admin")!]).toEqual(["users:manage", "posts:write", "posts:read"]);
+        expect([...rolePermissions.get("viewer")!]).toEqual(["posts:read"]);
+        expect(rolePermissions.has("guest")).toBe(false);
+    });
+
+    it("combines role grants with direct grants", () => {
+        expect(effectivePermissions(rolePermissions, ["editor", null], ["billing:read", "posts:read"]))
+            .toEqual(["billing:read", "posts:read", "posts:write"]);
+        expect(effectivePermissions(rolePermissions, [undefined, "unknown"], [])).toEqual([]);
+    });
+
+    it("returns the direct grants when no roles are defined", () => {
+        expect(effectivePermissions(new Map(), ["admin"], ["a"])).toEqual(["a"]);
+    });
+});
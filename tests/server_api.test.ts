@@ -15,7 +15,18 @@ import {
   setSession,
   clearSession,
   updateSession,
+  getReturnTo,
+  getAccessDecision,
+  requireRole,
+  requireAnyRole,
+  requirePermission,
+  requireAllPermissions,
+  requireRule,
+  can,
+  definePolicy,
+  subject,
 } from "../src/server";
+import { setConfig } from "../src/core/config";
 import { runWithContext } from "../src/core/context";
 import { mockSession, mockContext, SESSION_KEY } from "./test-utils";
 
@@ -128,6 +139,20 @@ describe("server API", () => {
         expect(hasRole("admin")).toBe(false);
       });
     });
+
+    it("honors the role hierarchy", async () => {
+      setConfig({ roleHierarchy: { owner: ["admin"], admin: ["editor"] } });
+
+      await runWithContext({ session: mockSession({ role: "owner" }) }, () => {
+        expect(hasRole("editor")).toBe(true);
+      });
+      await runWithContext({ session: mockSession({ role: "user", roles: ["admin"] }) }, () => {
+        expect(hasRole("editor")).toBe(true);
+        expect(hasRole("owner")).toBe(false);
+      });
+
+      setConfig({});
+    });
   });
 
   describe("hasPermission", () => {
@@ -370,6 +395,46 @@ describe("session management", () => {
       );
     });
 
+    it("stamps issuedAt and lastSeenAt when session lifetimes are configured", () => {
+      const context = mockContext();
+      setConfig({ maxAge: 3600, idleTimeout: 900 });
+      try {
+        setSession(context as any, mockSession());
+        const stored = context.session._store.get(SESSION_KEY);
+        expect(typeof stored?.issuedAt).toBe("number");
+        expect(stored?.lastSeenAt).toBe(stored?.issuedAt);
+      } finally {
+        setConfig({});
+      }
+    });
+
+    it("throws a clear error for asynchronous schemas", () => {
+      setConfig({
+        validateSession: { "~standard": { version: 1, vendor: "test", validate: async (value) => ({ value }) } },
+      });
+      try {
+        expect(() => setSession(mockContext() as any, mockSession())).toThrow(/asynchronous schema/);
+      } finally {
+        setConfig({});
+      }
+    });
+
+    it("lists the issues and applies validateSession", () => {
+      const context = mockContext();
+      expect(() => setSession(context as any, { userId: "" } as any)).toThrow(
+          /Issues: userId: must be a non-empty string/
+      );
+
+      setConfig({ validateSession: (session) => (session.tenantId ? true : [{ path: ["tenantId"], message: "required" }]) });
+      try {
+        expect(() => setSession(context as any, mockSession())).toThrow(/tenantId: required/);
+        setSession(context as any, mockSession({ tenantId: "acme" }));
+        expect(context.session._store.get(SESSION_KEY)?.tenantId).toBe("acme");
+      } finally {
+        setConfig({});
+      }
+    });
+
     it("accepts session with minimal valid data", () => {
       const context = mockContext();
       const session = { userId: "123" };
@@ -533,4 +598,265 @@ describe("session management", () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  describe("getReturnTo", () => {
+    it("returns a safe returnTo path", () => {
+      setConfig({});
+      const context = mockContext({ url: "http://localhost/login?returnTo=%2Fadmin%3Ftab%3D2" });
+      expect(getReturnTo(context as any)).toBe("/admin?tab=2");
+    });
+
+    it("reads the configured parameter", () => {
+      setConfig({ returnToParam: "next" });
+      const context = mockContext({ url: "http://localhost/login?next=/settings&returnTo=/admin" });
+      expect(getReturnTo(context as any)).toBe("/settings");
+      setConfig({});
+    });
+
+    it("falls back for missing or unsafe values", () => {
+      setConfig({});
+      const unsafe = [
+        "https://evil.com",
+        "//evil.com",
+        "/\\evil.com",
+        "javascript:alert(1)",
+      ];
+
+      expect(getReturnTo(mockContext({ url: "http://localhost/login" }) as any)).toBe("/");
+      for (const value of unsafe) {
+        const context = mockContext({ url: `http://localhost/login?returnTo=${encodeURIComponent(value)}` });
+        expect(getReturnTo(context as any, "/dashboard")).toBe("/dashboard");
+      }
+    });
+  });
+
+  describe("getAccessDecision", () => {
+    it("returns null when the guard did not run", () => {
+      expect(getAccessDecision(mockContext() as any)).toBeNull();
+    });
+
+    it("reads the decision from locals", () => {
+      const decision = {
+        allowed: true,
+        pathname: "/admin",
+        rule: { pattern: "/admin", role: "admin" },
+        pattern: "/admin",
+        params: {},
+        session: mockSession({ role: "admin" }),
+        grantedBy: "rule",
+        satisfied: [{ role: "admin" }],
+      };
+      const context = mockContext({ locals: { accessDecision: decision } });
+
+      expect(getAccessDecision(context as any)).toBe(decision);
+    });
+  });
+
+  describe("role permissions", () => {
+    it("derives permissions from the session's roles", async () => {
+      setConfig({
+        roleHierarchy: { admin: ["editor"] },
+        roles: {
+          admin: { permissions: ["users:manage"] },
+          editor: { permissions: ["posts:write"] },
+          support: { permissions: ["tickets:read"] },
+        },
+      });
+
+      await runWithContext({ session: mockSession({ role: "admin", roles: ["support"], permissions: ["beta"] }) }, () => {
+        expect(hasPermission("posts:write")).toBe(true);
+        expect(hasPermission("tickets:read")).toBe(true);
+        expect(hasAllPermissions("users:manage", "beta")).toBe(true);
+        expect(hasAnyPermission("billing:read", "users:manage")).toBe(true);
+        expect(hasPermission("billing:read")).toBe(false);
+      });
+
+      setConfig({});
+    });
+  });
+
+  describe("permission matching", () => {
+    it("applies wildcards and implied actions in every helper", async () => {
+      setConfig({
+        permissionMatching: { implies: { write: ["read"] } },
+        roles: { editor: { permissions: ["posts:*"] } },
+      });
+
+      await runWithContext({ session: mockSession({ role: "editor", permissions: ["billing:write"] }) }, () => {
+        expect(hasPermission("posts:delete")).toBe(true);
+        expect(hasAllPermissions("posts:publish", "billing:read")).toBe(true);
+        expect(hasAnyPermission("users:read", "billing:read")).toBe(true);
+        expect(hasRolePermission("editor", "posts:edit")).toBe(true);
+        expect(hasPermission("users:read")).toBe(false);
+      });
+
+      setConfig({});
+    });
+  });
+
+  describe("access hooks", () => {
+    it("reads roles and permissions through the access hooks", async () => {
+      setConfig({
+        access: {
+          getRole: (session) => (session?.primaryRole as string) ?? null,
+          getPermissions: (session) => (session?.grants as string[]) ?? [],
+        },
+      });
+      const session = mockSession({ role: "user", roles: ["beta"], primaryRole: "admin", grants: ["posts:write"] });
+
+      await runWithContext({ session }, () => {
+        expect(hasRole("admin")).toBe(true);
+        expect(hasRole("beta")).toBe(true);
+        expect(hasRole("user")).toBe(false);
+        expect(hasPermission("posts:write")).toBe(true);
+        expect(hasPermission("posts:read")).toBe(false);
+      });
+
+      setConfig({});
+    });
+
+    it("uses getRoles for every role the session holds", async () => {
+      setConfig({ access: { getRoles: (session) => (session?.groups as string[]) ?? [] } });
+
+      await runWithContext({ session: mockSession({ role: "admin", groups: ["staff", "support"] }) }, () => {
+        expect(hasRole("support")).toBe(true);
+        expect(hasRole("admin")).toBe(false);
+      });
+
+      setConfig({});
+    });
+  });
+
+  describe("authorization guards", () => {
+    const thrown = async (fn: () => unknown): Promise<Response> => {
+      try {
+        await fn();
+      } catch (error) {
+        return error as Response;
+      }
+      throw new Error("expected a thrown Response");
+    };
+
+    it("returns the session when the check passes", async () => {
+      const session = mockSession({ role: "admin", permissions: ["posts:write", "posts:read"] });
+
+      await runWithContext({ session }, async () => {
+        expect(requireRole("admin")).toBe(session);
+        expect(requireAnyRole(["editor", "admin"])).toBe(session);
+        expect(requirePermission("posts:write")).toBe(session);
+        expect(requireAllPermissions(["posts:write", "posts:read"])).toBe(session);
+        expect(await requireRule({ permission: "posts:read" })).toBe(session);
+      });
+    });
+
+    it("throws 403 with the guard's JSON body when signed in", async () => {
+      await runWithContext({ session: mockSession({ role: "user" }) }, async () => {
+        for (const check of [
+          () => requireRole("admin"),
+          () => requireAnyRole(["editor", "admin"]),
+          () => requirePermission("posts:write"),
+          () => requireAllPermissions(["posts:read", "posts:write"]),
+          () => requireRule({ role: "admin" }),
+        ]) {
+          const response = await thrown(check);
+          expect(response.status).toBe(403);
+          expect(await response.json()).toEqual({ error: "forbidden", status: 403, message: "Access denied" });
+        }
+      });
+    });
+
+    it("throws 401 when not authenticated", async () => {
+      await runWithContext({ session: null }, async () => {
+        const response = await thrown(() => requirePermission("posts:write"));
+        expect(response.status).toBe(401);
+        expect(await response.json()).toMatchObject({ error: "unauthorized" });
+      });
+    });
+
+    it("redirects page requests like the guard", async () => {
+      setConfig({ forbiddenPath: "/forbidden", returnToParam: "returnTo" });
+      const page = mockContext({ url: "http://localhost/admin?tab=2" });
+
+      await runWithContext({ session: null }, async () => {
+        const response = await thrown(() => requireRole("admin", page as any));
+        expect(response.headers.get("Location")).toBe("/login?returnTo=%2Fadmin%3Ftab%3D2");
+      });
+      await runWithContext({ session: mockSession() }, async () => {
+        const response = await thrown(() => requireRole("admin", page as any));
+        expect(response.headers.get("Location")).toBe("/forbidden");
+      });
+      await runWithContext({ session: null, expired: "idle" }, async () => {
+        const response = await thrown(() => requireRole("admin", page as any));
+        expect(response.headers.get("Location")).toBe("/login?returnTo=%2Fadmin%3Ftab%3D2&reason=session-expired");
+      });
+
+      setConfig({});
+    });
+
+    it("answers signed-in page requests with the configured forbiddenResponse", async () => {
+      const page = mockContext({ url: "http://localhost/admin" });
+
+      await runWithContext({ session: mockSession() }, async () => {
+        setConfig({ forbiddenPath: "/forbidden", forbiddenResponse: 403 });
+        expect((await thrown(() => requireRole("admin", page as any))).status).toBe(403);
+
+        setConfig({ forbiddenPath: "/forbidden", forbiddenResponse: "rewrite" });
+        const rewritten = await thrown(() => requireRule({ role: "admin" }, page as any));
+        expect(rewritten.headers.get("X-Rewritten-To")).toBe("/forbidden");
+        // Synchronous helpers cannot wait for a rewrite
+        expect((await thrown(() => requireRole("admin", page as any))).status).toBe(403);
+      });
+
+      setConfig({});
+    });
+
+    it("throws JSON errors for API requests even with a context", async () => {
+      const api = mockContext({ url: "http://localhost/api/posts", headers: { accept: "application/json" } });
+
+      await runWithContext({ session: mockSession() }, async () => {
+        const response = await thrown(() => requirePermission("posts:write", api as any));
+        expect(response.status).toBe(403);
+      });
+    });
+
+    it("throws 403 for signed-in page requests without a forbidden page", async () => {
+      await runWithContext({ session: mockSession() }, async () => {
+        const response = await thrown(() => requireRole("admin", mockContext() as any));
+        expect(response.status).toBe(403);
+      });
+    });
+
+    it("evaluates rules with the context's route params", async () => {
+      const rule = {
+        allow: (session: any, params: any) => session?.orgId === params.orgId,
+      };
+      const session = mockSession({ orgId: "acme" });
+
+      await runWithContext({ session }, async () => {
+        expect(await requireRule(rule, mockContext({ params: { orgId: "acme" } }) as any)).toBe(session);
+        const response = await thrown(() =>
+          requireRule(rule, mockContext({ params: { orgId: "other" }, headers: { accept: "application/json" } }) as any)
+        );
+        expect(response.status).toBe(403);
+      });
+    });
+  });
+
+  describe("can", () => {
+    it("checks the current session against a policy", async () => {
+      definePolicy<{ orgId: string }>("document", {
+        view: (session, doc) => session?.orgId === doc.orgId,
+        create: (session) => session?.role === "editor",
+      });
+
+      await runWithContext({ session: mockSession({ role: "editor", orgId: "acme" }) }, async () => {
+        expect(await can("view", subject("document", { orgId: "acme" }))).toBe(true);
+        expect(await can("view", subject("document", { orgId: "other" }))).toBe(false);
+        expect(await can("create", "document")).toBe(true);
+      });
+      await runWithContext({ session: null }, async () => {
+        expect(await can("create", "document")).toBe(false);
+      });
+    });
+  });
+});
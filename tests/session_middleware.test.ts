@@ -2,9 +2,10 @@
 // Session Middleware Tests
 // ============================================================================
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach, vi } from "vitest";
 import { sessionMiddleware } from "../src/core/sessionMiddleware";
 import { getContextStore } from "../src/core/context";
+import { setConfig } from "../src/core/config";
 import { mockContext, mockSession, mockNext, SESSION_KEY } from "./test-utils";
 
 describe("sessionMiddleware", () => {
@@ -175,4 +176,193 @@ describe("sessionMiddleware", () => {
 
     await sessionMiddleware(ctx as any, next as any);
   });
-});
\ No newline at end of file
+
+  describe("validateSession", () => {
+    afterEach(() => setConfig({}));
+
+    it("ignores sessions rejected by the custom validator", async () => {
+      setConfig({ validateSession: (session) => typeof session.tenantId === "string" });
+      const ctx = mockContext({ session: mockSession({ userId: "123" }) });
+      const next = mockNext();
+      next.mockImplementation(() => {
+        expect(getContextStore()?.session).toBeNull();
+        return new Response("ok");
+      });
+
+      await sessionMiddleware(ctx as any, next as any);
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("exposes the output of a Standard Schema", async () => {
+      setConfig({
+        validateSession: {
+          "~standard": {
+            version: 1,
+            vendor: "test",
+            validate: (value) => ({ value: { ...(value as object), tenantId: "default" } }),
+          },
+        },
+      });
+      const ctx = mockContext({ session: mockSession({ userId: "123" }) });
+      const next = mockNext();
+      next.mockImplementation(() => {
+        expect(getContextStore()?.session?.tenantId).toBe("default");
+        return new Response("ok");
+      });
+
+      await sessionMiddleware(ctx as any, next as any);
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("awaits asynchronous schemas", async () => {
+      setConfig({
+        validateSession: {
+          "~standard": {
+            version: 1,
+            vendor: "test",
+            validate: async (value) =>
+              (value as { userId: string }).userId === "123" ? { value } : { issues: [{ message: "unknown user" }] },
+          },
+        },
+      });
+
+      const seen: unknown[] = [];
+      const next = mockNext();
+      next.mockImplementation(() => {
+        seen.push(getContextStore()?.session?.userId ?? null);
+        return new Response("ok");
+      });
+
+      await sessionMiddleware(mockContext({ session: mockSession({ userId: "123" }) }) as any, next as any);
+      await sessionMiddleware(mockContext({ session: mockSession({ userId: "456" }) }) as any, next as any);
+      expect(seen).toEqual(["123", null]);
+    });
+
+    it("ignores sessions when the schema throws or rejects", async () => {
+      const seen: unknown[] = [];
+      const next = mockNext();
+      next.mockImplementation(() => {
+        seen.push(getContextStore()?.session ?? null);
+        return new Response("ok");
+      });
+
+      for (const validate of [
+        () => {
+          throw new Error("boom");
+        },
+        async () => {
+          throw new Error("lookup failed");
+        },
+      ]) {
+        setConfig({ validateSession: { "~standard": { version: 1, vendor: "test", validate } } });
+        await sessionMiddleware(mockContext({ session: mockSession({ userId: "123" }) }) as any, next as any);
+      }
+      expect(seen).toEqual([null, null]);
+    });
+
+    it("applies configured limits", async () => {
+      setConfig({ limits: { maxRoles: 1 } });
+      const ctx = mockContext({ session: mockSession({ userId: "123", roles: ["a", "b"] }) });
+      const next = mockNext();
+      next.mockImplementation(() => {
+        expect(getContextStore()?.session).toBeNull();
+        return new Response("ok");
+      });
+
+      await sessionMiddleware(ctx as any, next as any);
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
+  describe("session expiry", () => {
+    afterEach(() => {
+      setConfig({});
+      vi.useRealTimers();
+    });
+
+    it("clears expired sessions and flags the context", async () => {
+      vi.useFakeTimers({ now: 1_000_000 });
+      setConfig({ maxAge: 60 });
+      const ctx = mockContext({ session: mockSession({ issuedAt: 1_000_000 - 60_000 }) });
+      const next = mockNext();
+      next.mockImplementation(() => {
+        const context = getContextStore();
+        expect(context?.session).toBeNull();
+        expect(context?.expired).toBe("max-age");
+        return new Response("ok");
+      });
+
+      await sessionMiddleware(ctx as any, next as any);
+      expect(next).toHaveBeenCalled();
+      expect(ctx.session.delete).toHaveBeenCalledWith(SESSION_KEY);
+    });
+
+    it("records lastSeenAt for idleTimeout", async () => {
+      vi.useFakeTimers({ now: 1_000_000 });
+      setConfig({ idleTimeout: 60 });
+      const ctx = mockContext({ session: mockSession({ lastSeenAt: 1_000_000 - 30_000 }) });
+      const next = mockNext();
+      next.mockImplementation(() => {
+        expect(getContextStore()?.session?.lastSeenAt).toBe(1_000_000);
+        expect(getContextStore()?.expired).toBeUndefined();
+        return new Response("ok");
+      });
+
+      await sessionMiddleware(ctx as any, next as any);
+      expect(next).toHaveBeenCalled();
+      expect(ctx.session._store.get(SESSION_KEY)?.lastSeenAt).toBe(1_000_000);
+    });
+
+    it("judges expiry on the stored session when the schema strips timestamps", async () => {
+      vi.useFakeTimers({ now: 10_000_000 });
+      const strip = {
+        "~standard": {
+          version: 1 as const,
+          vendor: "test",
+          validate: (value: unknown) => ({ value: { userId: (value as { userId: string }).userId } }),
+        },
+      };
+      setConfig({ maxAge: 60, validateSession: strip });
+
+      const stale = mockContext({
+        session: mockSession({ issuedAt: 10_000_000 - 3_600_000, expiresAt: 10_000_000 - 1000 }),
+      });
+      const next = mockNext();
+      next.mockImplementation(() => {
+        expect(getContextStore()?.session).toBeNull();
+        expect(getContextStore()?.expired).toBe("expires-at");
+        return new Response("ok");
+      });
+      await sessionMiddleware(stale as any, next as any);
+      expect(next).toHaveBeenCalled();
+      expect(stale.session._store.has(SESSION_KEY)).toBe(false);
+
+      const fresh = mockContext({ session: mockSession({ issuedAt: 10_000_000 - 1000 }) });
+      const next2 = mockNext();
+      next2.mockImplementation(() => {
+        expect(getContextStore()?.session).toEqual({ userId: "test-user-id", issuedAt: 10_000_000 - 1000 });
+        return new Response("ok");
+      });
+      await sessionMiddleware(fresh as any, next2 as any);
+      expect(next2).toHaveBeenCalled();
+      expect(fresh.session.set).not.toHaveBeenCalled();
+    });
+
+    it("does not rewrite an active session on every request", async () => {
+      vi.useFakeTimers({ now: 1_000_000 });
+      setConfig({ idleTimeout: 600 });
+      const ctx = mockContext({ session: mockSession({ lastSeenAt: 1_000_000 - 5000 }) });
+
+      await sessionMiddleware(ctx as any, mockNext() as any);
+      expect(ctx.session.set).not.toHaveBeenCalled();
+    });
+
+    it("leaves sessions untouched when no lifetime is configured", async () => {
+      const session = mockSession();
+      const ctx = mockContext({ session });
+
+      await sessionMiddleware(ctx as any, mockNext() as any);
+      expect(ctx.session.set).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -70,6 +70,8 @@ export function mockSession(overrides: Partial<Session> = {}): Session {
  */
 export function mockContext(options: {
     url?: string;
+    method?: string;
+    headers?: Record<string, string>;
     session?: Session | null;
     locals?: Record<string, any>;
     params?: Record<string, string>;
@@ -77,6 +79,8 @@ export function mockContext(options: {
 } = {}) {
     const {
         url = "http://localhost",
+        method = "GET",
+        headers = {accept: "text/html"},
         session = null,
         locals = {},
         params = {},
@@ -84,7 +88,8 @@ export function mockContext(options: {
     } = options;
 
     const request = new Request(url, {
-        headers: {accept: "text/html"},
+        method,
+        headers,
     });
 
     // Seed the store with session if provided
@@ -109,6 +114,8 @@ export function mockContext(options: {
         },
         redirect: (location: string, status = 302) =>
             new Response(null, {status, headers: {Location: location}}),
+        rewrite: async (location: string) =>
+            new Response(null, {status: 200, headers: {"X-Rewritten-To": location}}),
     };
 }
 
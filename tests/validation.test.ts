@@ -4,6 +4,11 @@
 
 import { describe, it, expect } from "vitest";
 import {
+  DEFAULT_SESSION_LIMITS,
+  checkSession,
+  checkSessionSync,
+  findSessionIssues,
+  formatSessionIssues,
   isValidSessionStructure,
   isValidPattern,
   isValidRedirectPath,
@@ -148,6 +153,100 @@ describe("validation", () => {
     });
   });
 
+  describe("findSessionIssues", () => {
+    it("reports the path of each issue", () => {
+      const issues = findSessionIssues({ userId: "", roles: ["admin", 1], permissions: "read" });
+      expect(issues).toEqual([
+        { path: ["userId"], message: "must be a non-empty string" },
+        { path: ["roles", 1], message: "must be a string" },
+        { path: ["permissions"], message: "must be an array" },
+      ]);
+      expect(formatSessionIssues(issues)).toBe(
+        "userId: must be a non-empty string; roles[1]: must be a string; permissions: must be an array"
+      );
+    });
+
+    it("requires expiry timestamps to be numbers", () => {
+      expect(findSessionIssues({ userId: "1", issuedAt: Date.now(), expiresAt: "tomorrow" })).toEqual([
+        { path: ["expiresAt"], message: "must be a timestamp in milliseconds" },
+      ]);
+    });
+
+    it("honors custom limits", () => {
+      const limits = { ...DEFAULT_SESSION_LIMITS, maxRoles: 2, maxPermissionLength: 10 };
+      expect(isValidSessionStructure({ userId: "1", roles: ["a", "b", "c"] }, limits)).toBe(false);
+      expect(isValidSessionStructure({ userId: "1", permissions: ["posts:write"] }, limits)).toBe(false);
+      expect(isValidSessionStructure({ userId: "1", roles: ["a", "b"], permissions: ["read"] }, limits)).toBe(true);
+    });
+  });
+
+  describe("checkSession", () => {
+    const schema = (validate: (value: any) => any) => ({
+      "~standard": { version: 1 as const, vendor: "test", validate },
+    });
+
+    it("runs the built-in checks before the validator", () => {
+      let called = false;
+      const result = checkSessionSync({}, DEFAULT_SESSION_LIMITS, () => (called = true));
+      expect(result.issues).toEqual([{ path: ["userId"], message: "must be a non-empty string" }]);
+      expect(called).toBe(false);
+    });
+
+    it("accepts boolean or issue results from a function", () => {
+      const session = { userId: "1", tenantId: "acme" };
+      expect(checkSessionSync(session, DEFAULT_SESSION_LIMITS, () => true).session).toBe(session);
+      expect(checkSessionSync(session, DEFAULT_SESSION_LIMITS, () => false).issues).toEqual([
+        { path: [], message: "rejected by validateSession" },
+      ]);
+      expect(
+        checkSessionSync(session, DEFAULT_SESSION_LIMITS, () => [{ path: ["tenantId"], message: "unknown tenant" }]).issues
+      ).toEqual([{ path: ["tenantId"], message: "unknown tenant" }]);
+    });
+
+    it("turns a throwing validator into an issue", () => {
+      const result = checkSessionSync({ userId: "1" }, DEFAULT_SESSION_LIMITS, () => {
+        throw new Error("boom");
+      });
+      expect(result.issues?.[0]?.message).toMatch(/boom/);
+    });
+
+    it("uses the output of a Standard Schema", () => {
+      const trim = schema((value) => ({ value: { ...value, email: value.email.trim() } }));
+      expect(checkSessionSync({ userId: "1", email: " a@b.c " }, DEFAULT_SESSION_LIMITS, trim).session?.email).toBe("a@b.c");
+
+      const reject = schema(() => ({ issues: [{ message: "required", path: [{ key: "tenantId" }] }] }));
+      expect(checkSessionSync({ userId: "1" }, DEFAULT_SESSION_LIMITS, reject).issues).toEqual([
+        { path: ["tenantId"], message: "required" },
+      ]);
+    });
+
+    it("turns a throwing or rejecting schema into an issue", async () => {
+      const throwing = schema(() => {
+        throw new Error("boom");
+      });
+      expect(checkSessionSync({ userId: "1" }, DEFAULT_SESSION_LIMITS, throwing).issues?.[0]?.message).toMatch(/boom/);
+
+      const rejecting = schema(async () => {
+        throw new Error("lookup failed");
+      });
+      const result = await checkSession({ userId: "1" }, DEFAULT_SESSION_LIMITS, rejecting);
+      expect(result.issues?.[0]?.message).toMatch(/lookup failed/);
+    });
+
+    it("returns a promise for asynchronous schemas", async () => {
+      const async = schema(async (value) => ({ value: { ...value, checked: true } }));
+      const result = checkSession({ userId: "1" }, DEFAULT_SESSION_LIMITS, async);
+      expect(result).toBeInstanceOf(Promise);
+      expect((await result).session?.checked).toBe(true);
+    });
+
+    it("throws for asynchronous schemas when validating synchronously", () => {
+      const async = schema(async (value) => ({ value }));
+      expect(() => checkSessionSync({ userId: "1" }, DEFAULT_SESSION_LIMITS, async)).toThrow(/asynchronous schema/);
+      expect(checkSessionSync({ userId: "1" }, DEFAULT_SESSION_LIMITS).session).toEqual({ userId: "1" });
+    });
+  });
+
   describe("isValidPattern", () => {
     it("accepts valid patterns", () => {
       expect(isValidPattern("/admin")).toBe(true);
@@ -194,6 +293,23 @@ describe("validation", () => {
       expect(isValidPattern("/a/*/b/*/c")).toBe(true);
     });
 
+    it("accepts Astro dynamic segments", () => {
+      expect(isValidPattern("/orgs/[orgId]/settings")).toBe(true);
+      expect(isValidPattern("/docs/[...slug]")).toBe(true);
+      expect(isValidPattern("/[lang]-docs/[...path]/edit")).toBe(true);
+    });
+
+    it("rejects malformed dynamic segments", () => {
+      expect(isValidPattern("/orgs/[orgId")).toBe(false);
+      expect(isValidPattern("/orgs/orgId]")).toBe(false);
+      expect(isValidPattern("/orgs/[]")).toBe(false);
+      expect(isValidPattern("/orgs/[1st]")).toBe(false);
+      expect(isValidPattern("/[a][b]")).toBe(false);
+      expect(isValidPattern("/[id]/x/[id]")).toBe(false);
+      expect(isValidPattern("/docs/v[...slug]")).toBe(false);
+      expect(isValidPattern("/users/[id]*")).toBe(false);
+    });
+
     it("rejects patterns with excessive wildcard groups", () => {
       // More than 20 wildcard groups
       const pattern = "/" + "a*".repeat(21);
@@ -231,6 +347,12 @@ describe("validation", () => {
       expect(isValidRedirectPath("//example.com")).toBe(false);
     });
 
+    it("rejects paths browsers would turn into protocol-relative URLs", () => {
+      expect(isValidRedirectPath("/\\example.com")).toBe(false);
+      expect(isValidRedirectPath("/\t/example.com")).toBe(false);
+      expect(isValidRedirectPath("/\n/example.com")).toBe(false);
+    });
+
     it("rejects paths that are too long", () => {
       const path = "/" + "a".repeat(500);
       expect(isValidRedirectPath(path)).toBe(false);
@@ -6,5 +6,10 @@ export default defineConfig({
     test: {
         globals: true,
         environment: "node",
+        typecheck: {
+            enabled: true,
+            include: ["tests/**/*.test-d.ts"],
+            tsconfig: "tests/tsconfig.json",
+        },
     },
 });